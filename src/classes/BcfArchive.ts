@@ -0,0 +1,321 @@
+import JSZip from "jszip";
+import { v4 as uuidv4 } from "uuid";
+import { ITodo, IViewpoint, TodoStatus } from "./Project";
+
+export type BcfVersion = "2.1" | "3.0";
+
+export type BcfExportOptions = {
+  version: BcfVersion;
+  projectId: string;
+  projectName: string;
+  // PNG data URL for a todo (null => topic is exported without snapshot)
+  snapshot?: (todo: ITodo) => string | null;
+};
+
+/** A BCF topic read back as ToDo data (id = topic GUID) */
+export type BcfTopic = Pick<ITodo, "id" | "title" | "status" | "createdAt" | "updatedAt"> &
+  Pick<ITodo, "elements" | "viewpoint">;
+
+/**
+ * BCF (BIM Collaboration Format) zip reader / writer for project ToDos.
+ * One topic per ToDo, with at most one viewpoint (selection + camera) and snapshot.
+ *
+ * Coordinates: the viewer is Y-up (three.js) while BCF uses IFC Z-up,
+ * so cameras are converted (x, y, z) <=> (x, -z, y).
+ */
+export class BcfArchive {
+  static readonly STATUS_OUT: Record<TodoStatus, string> = {
+    pending: "Open",
+    in_progress: "In Progress",
+    done: "Closed",
+    blocked: "Blocked",
+  };
+
+  // Distance used to rebuild an orbit target from a BCF camera direction
+  private static readonly TARGET_DISTANCE = 10;
+
+  // ----------------- Export -----------------
+
+  static async write(todos: ITodo[], opts: BcfExportOptions): Promise<Blob> {
+    const zip = new JSZip();
+    zip.file("bcf.version", BcfArchive.versionXml(opts.version));
+
+    if (opts.version === "2.1") {
+      zip.file("project.bcfp", BcfArchive.projectXml(opts));
+    } else {
+      zip.file("extensions.xml", BcfArchive.extensionsXml());
+    }
+
+    for (const todo of todos) {
+      const folder = zip.folder(todo.id);
+      if (!folder) continue;
+
+      const hasViewpoint = !!(todo.elements?.length || todo.viewpoint);
+      const viewpointGuid = uuidv4();
+      const snapshot = hasViewpoint ? opts.snapshot?.(todo) ?? null : null;
+
+      folder.file(
+        "markup.bcf",
+        BcfArchive.markupXml(todo, opts.version, hasViewpoint ? viewpointGuid : null, !!snapshot)
+      );
+      if (hasViewpoint) {
+        folder.file("viewpoint.bcfv", BcfArchive.viewpointXml(todo, viewpointGuid, opts.version));
+      }
+      if (snapshot) {
+        folder.file("snapshot.png", snapshot.replace(/^data:image\/png;base64,/, ""), {
+          base64: true,
+        });
+      }
+    }
+
+    return zip.generateAsync({ type: "blob", mimeType: "application/octet-stream" });
+  }
+
+  private static versionXml(version: BcfVersion): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Version VersionId="${version}">
+  <DetailedVersion>${version}</DetailedVersion>
+</Version>
+`;
+  }
+
+  private static projectXml(opts: BcfExportOptions): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<ProjectExtension>
+  <Project ProjectId="${BcfArchive.escape(opts.projectId)}">
+    <Name>${BcfArchive.escape(opts.projectName)}</Name>
+  </Project>
+  <ExtensionSchema></ExtensionSchema>
+</ProjectExtension>
+`;
+  }
+
+  private static extensionsXml(): string {
+    const statuses = Object.values(BcfArchive.STATUS_OUT)
+      .map((s) => `    <TopicStatus>${s}</TopicStatus>`)
+      .join("\n");
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Extensions>
+  <TopicTypes>
+    <TopicType>Issue</TopicType>
+  </TopicTypes>
+  <TopicStatuses>
+${statuses}
+  </TopicStatuses>
+</Extensions>
+`;
+  }
+
+  private static markupXml(
+    todo: ITodo,
+    version: BcfVersion,
+    viewpointGuid: string | null,
+    hasSnapshot: boolean
+  ): string {
+    const status = BcfArchive.STATUS_OUT[todo.status];
+    const snapshot = hasSnapshot ? "<Snapshot>snapshot.png</Snapshot>" : "";
+    // Both markup.xsd versions require CreationAuthor right after CreationDate
+
+    if (version === "2.1") {
+      const viewpoints = viewpointGuid
+        ? `
+  <Viewpoints Guid="${viewpointGuid}">
+    <Viewpoint>viewpoint.bcfv</Viewpoint>${snapshot}
+  </Viewpoints>`
+        : "";
+      return `<?xml version="1.0" encoding="UTF-8"?>
+<Markup>
+  <Topic Guid="${todo.id}" TopicType="Issue" TopicStatus="${status}">
+    <Title>${BcfArchive.escape(todo.title)}</Title>
+    <CreationDate>${todo.createdAt}</CreationDate>
+    <CreationAuthor>OTACC BIM App</CreationAuthor>
+    <ModifiedDate>${todo.updatedAt}</ModifiedDate>
+  </Topic>${viewpoints}
+</Markup>
+`;
+    }
+
+    // 3.0: viewpoints live inside the topic
+    const viewpoints = viewpointGuid
+      ? `
+    <Viewpoints>
+      <ViewPoint Guid="${viewpointGuid}">
+        <Viewpoint>viewpoint.bcfv</Viewpoint>${snapshot}
+      </ViewPoint>
+    </Viewpoints>`
+      : "";
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Markup>
+  <Topic Guid="${todo.id}" TopicType="Issue" TopicStatus="${status}">
+    <Title>${BcfArchive.escape(todo.title)}</Title>
+    <CreationDate>${todo.createdAt}</CreationDate>
+    <CreationAuthor>OTACC BIM App</CreationAuthor>
+    <ModifiedDate>${todo.updatedAt}</ModifiedDate>${viewpoints}
+  </Topic>
+</Markup>
+`;
+  }
+
+  private static viewpointXml(todo: ITodo, guid: string, version: BcfVersion): string {
+    const components = (todo.elements ?? [])
+      .map((id) => `      <Component IfcGuid="${BcfArchive.escape(id)}" />`)
+      .join("\n");
+
+    let camera = "";
+    if (todo.viewpoint) {
+      const [px, py, pz] = todo.viewpoint.position;
+      const [tx, ty, tz] = todo.viewpoint.target;
+      const length = Math.hypot(tx - px, ty - py, tz - pz) || 1;
+      const position = BcfArchive.toIfc([px, py, pz]);
+      const direction = BcfArchive.toIfc([(tx - px) / length, (ty - py) / length, (tz - pz) / length]);
+      const aspect = version === "3.0" ? "\n    <AspectRatio>1.6</AspectRatio>" : "";
+
+      camera = `
+  <PerspectiveCamera>
+    <CameraViewPoint>${BcfArchive.vectorXml(position)}</CameraViewPoint>
+    <CameraDirection>${BcfArchive.vectorXml(direction)}</CameraDirection>
+    <CameraUpVector><X>0</X><Y>0</Y><Z>1</Z></CameraUpVector>
+    <FieldOfView>60</FieldOfView>${aspect}
+  </PerspectiveCamera>`;
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<VisualizationInfo Guid="${guid}">
+  <Components>
+    <Selection>
+${components}
+    </Selection>
+    <Visibility DefaultVisibility="true" />
+  </Components>${camera}
+</VisualizationInfo>
+`;
+  }
+
+  // ----------------- Import -----------------
+
+  /** Reads every topic of a BCF 2.1 / 3.0 archive (topics without GUID are skipped) */
+  static async read(data: Blob | ArrayBuffer): Promise<BcfTopic[]> {
+    const zip = await JSZip.loadAsync(data);
+
+    const versionFile = zip.file("bcf.version");
+    if (versionFile) {
+      const version = BcfArchive.parse(await versionFile.async("string"))
+        .documentElement.getAttribute("VersionId");
+      if (version && !version.startsWith("2.") && !version.startsWith("3.")) {
+        throw new Error(`Unsupported BCF version: ${version}`);
+      }
+    }
+
+    const topics = new Map<string, BcfTopic>();
+    const markups = zip.file(/(^|\/)markup\.bcf$/i);
+
+    for (const markupFile of markups) {
+      const folder = markupFile.name.replace(/markup\.bcf$/i, "");
+      const markup = BcfArchive.parse(await markupFile.async("string"));
+      const topicEl = markup.getElementsByTagName("Topic")[0];
+      const guid = topicEl?.getAttribute("Guid")?.trim();
+      if (!topicEl || !guid) continue;
+
+      const now = new Date().toISOString();
+      const topic: BcfTopic = {
+        id: guid,
+        title: BcfArchive.childText(topicEl, "Title") || "Untitled topic",
+        status: BcfArchive.mapStatus(topicEl.getAttribute("TopicStatus")),
+        createdAt: BcfArchive.childText(topicEl, "CreationDate") || now,
+        updatedAt:
+          BcfArchive.childText(topicEl, "ModifiedDate") ||
+          BcfArchive.childText(topicEl, "CreationDate") ||
+          now,
+      };
+
+      // 2.1: Markup > Viewpoints > Viewpoint / 3.0: Topic > Viewpoints > ViewPoint > Viewpoint
+      const viewpointName = markup.getElementsByTagName("Viewpoint")[0]?.textContent?.trim();
+      const viewpointFile = viewpointName ? zip.file(folder + viewpointName) : null;
+      if (viewpointFile) {
+        const info = BcfArchive.parse(await viewpointFile.async("string"));
+        BcfArchive.readViewpoint(info, topic);
+      }
+
+      // Same GUID twice in one archive: last one wins
+      topics.set(guid, topic);
+    }
+
+    return Array.from(topics.values());
+  }
+
+  /** BCF statuses are free text: match the usual ones, default to pending */
+  static mapStatus(value: string | null): TodoStatus {
+    const v = String(value ?? "").trim().toLowerCase().replace(/[\s_-]+/g, "");
+    if (["closed", "resolved", "done", "fixed"].includes(v)) return "done";
+    if (["inprogress", "active", "assigned"].includes(v)) return "in_progress";
+    if (["blocked", "onhold"].includes(v)) return "blocked";
+    return "pending";
+  }
+
+  private static readViewpoint(info: Document, topic: BcfTopic) {
+    const selection = Array.from(info.getElementsByTagName("Selection")[0]?.children ?? [])
+      .map((c) => c.getAttribute("IfcGuid")?.trim())
+      .filter((id): id is string => !!id);
+    if (selection.length) topic.elements = selection;
+
+    const camera = info.getElementsByTagName("PerspectiveCamera")[0];
+    if (!camera) return;
+
+    const position = BcfArchive.readVector(camera, "CameraViewPoint");
+    const direction = BcfArchive.readVector(camera, "CameraDirection");
+    if (!position || !direction) return;
+
+    const p = BcfArchive.fromIfc(position);
+    const d = BcfArchive.fromIfc(direction);
+    const length = Math.hypot(...d) || 1;
+    const k = BcfArchive.TARGET_DISTANCE / length;
+    const viewpoint: IViewpoint = {
+      position: p,
+      target: [p[0] + d[0] * k, p[1] + d[1] * k, p[2] + d[2] * k],
+    };
+    topic.viewpoint = viewpoint;
+  }
+
+  // ----------------- Helpers -----------------
+
+  private static toIfc([x, y, z]: [number, number, number]): [number, number, number] {
+    return [x, -z, y];
+  }
+
+  private static fromIfc([x, y, z]: [number, number, number]): [number, number, number] {
+    return [x, z, -y];
+  }
+
+  private static vectorXml([x, y, z]: [number, number, number]): string {
+    return `<X>${x}</X><Y>${y}</Y><Z>${z}</Z>`;
+  }
+
+  private static readVector(parent: Element, tag: string): [number, number, number] | null {
+    const el = parent.getElementsByTagName(tag)[0];
+    if (!el) return null;
+    const values = ["X", "Y", "Z"].map((axis) => Number(BcfArchive.childText(el, axis)));
+    if (values.some((n) => !Number.isFinite(n))) return null;
+    return [values[0], values[1], values[2]];
+  }
+
+  private static childText(parent: Element, tag: string): string {
+    return parent.getElementsByTagName(tag)[0]?.textContent?.trim() ?? "";
+  }
+
+  private static parse(xml: string): Document {
+    const doc = new DOMParser().parseFromString(xml, "application/xml");
+    if (doc.getElementsByTagName("parsererror").length) {
+      throw new Error("Invalid XML inside BCF archive.");
+    }
+    return doc;
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  }
+}
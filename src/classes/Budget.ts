@@ -0,0 +1,63 @@
+import { CostCategory, ICostItem } from "./Project";
+
+/** Budget vs. actual of one project */
+export interface BudgetSummary {
+  budget: number; // 0 = no budget set
+  actual: number;
+  variance: number; // budget - actual (negative = over budget)
+  ratio: number; // actual / budget (0 without budget)
+  state: "none" | "ok" | "warning" | "over";
+}
+
+/** Budget figures and currency formatting (no DOM) */
+export class Budget {
+  // Spend ratio from which a project is flagged before going over
+  static readonly WARNING_RATIO = 0.9;
+
+  static readonly CURRENCIES: string[] = ["USD", "EUR", "GBP", "CAD", "MXN", "COP", "CLP", "BRL"];
+
+  static readonly CATEGORY_LABELS: Record<CostCategory, string> = {
+    labor: "Labor",
+    materials: "Materials",
+    equipment: "Equipment",
+    subcontract: "Subcontract",
+    fees: "Fees & permits",
+    other: "Other",
+  };
+
+  static total(items: ICostItem[]): number {
+    return items.reduce((sum, item) => sum + item.amount, 0);
+  }
+
+  static summarize(budget: number, items: ICostItem[]): BudgetSummary {
+    const actual = Budget.total(items);
+    const ratio = budget > 0 ? actual / budget : 0;
+    let state: BudgetSummary["state"] = "none";
+    if (budget > 0) {
+      state = actual > budget ? "over" : ratio >= Budget.WARNING_RATIO ? "warning" : "ok";
+    }
+    return { budget, actual, variance: budget - actual, ratio, state };
+  }
+
+  /** Spent amount per category (categories without items are left out) */
+  static byCategory(items: ICostItem[]): Partial<Record<CostCategory, number>> {
+    const totals: Partial<Record<CostCategory, number>> = {};
+    for (const item of items) totals[item.category] = (totals[item.category] ?? 0) + item.amount;
+    return totals;
+  }
+
+  /** Locale-aware money ("$1,200.00", "1.200,00 €"); falls back to "1200.00 XYZ" */
+  static format(amount: number, currency: string, locale?: string): string {
+    try {
+      return new Intl.NumberFormat(locale, { style: "currency", currency }).format(amount);
+    } catch {
+      return `${amount.toFixed(2)} ${currency}`;
+    }
+  }
+
+  /** ISO 4217 code ("usd " => "USD"); USD when invalid */
+  static normalizeCurrency(value: unknown): string {
+    const code = typeof value === "string" ? value.trim().toUpperCase() : "";
+    return /^[A-Z]{3}$/.test(code) ? code : "USD";
+  }
+}
@@ -0,0 +1,87 @@
+import { Project, TodoStatus } from "./Project";
+import { Schedule } from "./Schedule";
+
+/** One all-day entry: a project finish date or a ToDo due date */
+export interface CalendarEvent {
+  uid: string; // stable between exports (calendar apps update instead of duplicating)
+  projectId: string;
+  projectName: string;
+  todoId?: string; // missing = the project's finish date
+  title: string;
+  date: string; // YYYY-MM-DD
+  done: boolean;
+  status?: TodoStatus;
+  description?: string;
+}
+
+export type CalendarMode = "month" | "week";
+
+/** Deadlines by day and calendar grids (no DOM); weeks start on Monday */
+export class Calendar {
+  static events(projects: Project[]): CalendarEvent[] {
+    const events: CalendarEvent[] = [];
+    for (const project of projects) {
+      events.push({
+        uid: `project-${project.id}`,
+        projectId: project.id,
+        projectName: project.name,
+        title: `${project.name}: finish`,
+        date: Schedule.projectSpan(project).end,
+        done: project.status === "finished",
+        description: project.description || undefined,
+      });
+
+      for (const todo of project.todos) {
+        if (!todo.dueDate) continue;
+        events.push({
+          uid: `todo-${todo.id}`,
+          projectId: project.id,
+          projectName: project.name,
+          todoId: todo.id,
+          title: todo.title,
+          date: todo.dueDate,
+          done: todo.status === "done",
+          status: todo.status,
+          description: todo.description,
+        });
+      }
+    }
+    return events.sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+  }
+
+  /** Events grouped by day */
+  static byDay(events: CalendarEvent[]): Map<string, CalendarEvent[]> {
+    const days = new Map<string, CalendarEvent[]>();
+    for (const event of events) {
+      days.set(event.date, [...(days.get(event.date) ?? []), event]);
+    }
+    return days;
+  }
+
+  /** Monday of the week holding `day` */
+  static weekStart(day: string): string {
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+    return Schedule.addDays(day, -((weekday + 6) % 7));
+  }
+
+  /** Days shown for the period around `day`: 7, or whole weeks covering its month */
+  static days(day: string, mode: CalendarMode): string[] {
+    if (mode === "week") {
+      const start = Calendar.weekStart(day);
+      return Array.from({ length: 7 }, (_, i) => Schedule.addDays(start, i));
+    }
+    const first = `${day.slice(0, 7)}-01`;
+    const last = Schedule.addDays(Calendar.shift(first, "month", 1), -1);
+    const start = Calendar.weekStart(first);
+    const count = Schedule.daysBetween(start, Calendar.weekStart(last)) + 7;
+    return Array.from({ length: count }, (_, i) => Schedule.addDays(start, i));
+  }
+
+  /** Previous / next week or month (months always land on their 1st) */
+  static shift(day: string, mode: CalendarMode, steps: number): string {
+    if (mode === "week") return Schedule.addDays(day, steps * 7);
+    const date = new Date(`${day.slice(0, 7)}-01T00:00:00Z`);
+    date.setUTCMonth(date.getUTCMonth() + steps);
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,136 @@
+import { Project } from "./Project";
+import { ProjectsManager } from "./ProjectsManager";
+import { Calendar, CalendarEvent, CalendarMode } from "./Calendar";
+
+/** Month / week grid with the finish and due dates of the main list projects */
+export class CalendarPage {
+  ui: HTMLElement;
+  projects: ProjectsManager;
+
+  mode: CalendarMode = "month";
+  // Any day of the shown period (YYYY-MM-DD)
+  anchor: string = Project.toDay(new Date());
+
+  // Event click => project details (framing the ToDo of a due date)
+  onOpenProject: ((projectId: string, todoId?: string) => void) | null = null;
+
+  // Month cells list this many events, then "+n more"
+  static readonly MAX_EVENTS_PER_DAY = 3;
+
+  static readonly WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+  constructor(container: HTMLElement, projects: ProjectsManager) {
+    this.ui = container;
+    this.projects = projects;
+
+    const on = (selector: string, handler: () => void) => {
+      const el = this.ui.querySelector(selector) as HTMLElement | null;
+      el?.addEventListener("click", handler);
+    };
+    on("#calendar-prev", () => this.go(Calendar.shift(this.anchor, this.mode, -1)));
+    on("#calendar-next", () => this.go(Calendar.shift(this.anchor, this.mode, 1)));
+    on("#calendar-today", () => this.go(Project.toDay(new Date())));
+    on("#calendar-export-btn", () => this.projects.exportCalendar());
+
+    this.ui.querySelectorAll<HTMLElement>("[data-calendar-mode]").forEach((btn) => {
+      btn.addEventListener("click", () => {
+        this.mode = btn.dataset.calendarMode === "week" ? "week" : "month";
+        this.render();
+      });
+    });
+  }
+
+  get isVisible(): boolean {
+    return this.ui.style.display !== "none";
+  }
+
+  private go(day: string) {
+    this.anchor = day;
+    this.render();
+  }
+
+  render() {
+    const grid = this.ui.querySelector("#calendar-grid") as HTMLElement | null;
+    if (!grid) return;
+
+    this.ui.querySelectorAll<HTMLElement>("[data-calendar-mode]").forEach((btn) => {
+      btn.classList.toggle("active", btn.dataset.calendarMode === this.mode);
+    });
+
+    const days = Calendar.days(this.anchor, this.mode);
+    const title = this.ui.querySelector("[data-calendar-title]") as HTMLElement | null;
+    if (title) title.textContent = this.periodTitle(days);
+
+    const events = Calendar.byDay(Calendar.events(this.projects.getProjectsInView("active")));
+    const today = Project.toDay(new Date());
+    const month = this.anchor.slice(0, 7);
+
+    grid.innerHTML = "";
+    grid.classList.toggle("calendar-grid-week", this.mode === "week");
+    for (const name of CalendarPage.WEEKDAYS) {
+      const head = document.createElement("div");
+      head.className = "calendar-weekday";
+      head.textContent = name;
+      grid.append(head);
+    }
+
+    for (const day of days) {
+      const cell = document.createElement("div");
+      cell.className = "calendar-day";
+      cell.classList.toggle("calendar-day-today", day === today);
+      cell.classList.toggle("calendar-day-outside", this.mode === "month" && !day.startsWith(month));
+
+      const number = document.createElement("span");
+      number.className = "calendar-day-number";
+      number.textContent = String(Number(day.slice(8)));
+      cell.append(number);
+
+      const dayEvents = events.get(day) ?? [];
+      const limit = this.mode === "month" ? CalendarPage.MAX_EVENTS_PER_DAY : dayEvents.length;
+      for (const event of dayEvents.slice(0, limit)) {
+        cell.append(this.createEvent(event, day < today));
+      }
+      if (dayEvents.length > limit) {
+        const more = document.createElement("button");
+        more.type = "button";
+        more.className = "calendar-more";
+        more.textContent = `+${dayEvents.length - limit} more`;
+        // The week view lists every event of that day
+        more.addEventListener("click", () => {
+          this.mode = "week";
+          this.go(day);
+        });
+        cell.append(more);
+      }
+      grid.append(cell);
+    }
+  }
+
+  private createEvent(event: CalendarEvent, past: boolean): HTMLElement {
+    const el = document.createElement("div");
+    el.className = `calendar-event calendar-event-${event.todoId ? "todo" : "project"}`;
+    el.classList.toggle("calendar-event-done", event.done);
+    el.classList.toggle("calendar-event-overdue", past && !event.done);
+    el.innerHTML = `<span class="material-icons-round"></span><span class="calendar-event-title"></span>`;
+    (el.firstElementChild as HTMLElement).textContent = event.todoId ? "task_alt" : "flag";
+    (el.querySelector(".calendar-event-title") as HTMLElement).textContent = event.title;
+    el.title = event.todoId ? `${event.title} (${event.projectName})` : event.title;
+    el.addEventListener("click", () => this.onOpenProject?.(event.projectId, event.todoId));
+    return el;
+  }
+
+  /** "March 2024" or "Mar 4 – Mar 10, 2024" */
+  private periodTitle(days: string[]): string {
+    const date = (day: string) => new Date(`${day}T00:00:00Z`);
+    if (this.mode === "month") {
+      return date(this.anchor).toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+        timeZone: "UTC",
+      });
+    }
+    const short = (day: string) =>
+      date(day).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+    return `${short(days[0])} – ${short(days[days.length - 1])}, ${days[days.length - 1].slice(0, 4)}`;
+  }
+}
@@ -0,0 +1,69 @@
+/** An already performed change that can be reverted and re-applied */
+export interface Command {
+  // Human readable ("Change status of ToDo "Check slabs"")
+  description: string;
+  undo(): void;
+  redo(): void;
+}
+
+/** Undo / redo stacks (a new command clears the redo stack) */
+export class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private limit: number;
+
+  // Called after every push / undo / redo (refresh buttons, titles...)
+  onChange: (() => void) | null = null;
+
+  constructor(limit: number = 100) {
+    this.limit = limit;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Description of the command the next undo would revert */
+  get nextUndo(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.description ?? null;
+  }
+
+  get nextRedo(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.description ?? null;
+  }
+
+  push(command: Command) {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+    this.redoStack = [];
+    this.onChange?.();
+  }
+
+  undo(): Command | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    command.undo();
+    this.redoStack.push(command);
+    this.onChange?.();
+    return command;
+  }
+
+  redo(): Command | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    command.redo();
+    this.undoStack.push(command);
+    this.onChange?.();
+    return command;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.onChange?.();
+  }
+}
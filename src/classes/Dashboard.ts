@@ -0,0 +1,137 @@
+import { Project, ProjectStatus, TodoStatus } from "./Project";
+import { ProjectFilter } from "./ProjectFilter";
+
+/** Drill-down from a dashboard chart / KPI into the projects list */
+export type DashboardFilter =
+  | { kind: "status"; status: ProjectStatus }
+  | { kind: "overdue" }
+  | { kind: "todos"; status: TodoStatus } // projects with at least one ToDo in that status
+  | { kind: "upcoming" }; // finish date within the next UPCOMING_DAYS
+
+/** Project finish date or ToDo due date shown in "Upcoming deadlines" */
+export interface Deadline {
+  projectId: string;
+  projectName: string;
+  todoId?: string; // missing = the project's finish date
+  title: string;
+  date: string; // YYYY-MM-DD
+}
+
+export interface DashboardStats {
+  projects: number;
+  byStatus: Record<ProjectStatus, number>;
+  costByCurrency: Record<string, number>; // actual spend, currencies are never mixed
+  averageProgress: number; // 0..1 (0 without projects)
+  overdue: number;
+  todosByStatus: Record<TodoStatus, number>;
+  deadlines: Deadline[]; // earliest first
+}
+
+/** Portfolio aggregates behind the dashboard page (no DOM) */
+export class Dashboard {
+  static readonly UPCOMING_DAYS = 30;
+  static readonly MAX_DEADLINES = 8;
+
+  static summarize(projects: Project[], today: Date = new Date()): DashboardStats {
+    const byStatus: Record<ProjectStatus, number> = { pending: 0, active: 0, finished: 0 };
+    const todosByStatus: Record<TodoStatus, number> = {
+      pending: 0,
+      in_progress: 0,
+      done: 0,
+      blocked: 0,
+    };
+    const costByCurrency: Record<string, number> = {};
+    const deadlines: Deadline[] = [];
+    const from = Project.toDay(today);
+    const until = Dashboard.upcomingLimit(today);
+    let progress = 0;
+    let overdue = 0;
+
+    for (const project of projects) {
+      byStatus[project.status]++;
+      progress += project.progress;
+      if (project.cost) {
+        costByCurrency[project.currency] = (costByCurrency[project.currency] ?? 0) + project.cost;
+      }
+      if (Dashboard.isOverdue(project, today)) overdue++;
+
+      const finish = ProjectFilter.finishDay(project);
+      if (project.status !== "finished" && finish >= from && finish <= until) {
+        deadlines.push({
+          projectId: project.id,
+          projectName: project.name,
+          title: "Project finish",
+          date: finish,
+        });
+      }
+
+      for (const todo of project.todos) {
+        todosByStatus[todo.status]++;
+        if (todo.status === "done" || !todo.dueDate) continue;
+        if (todo.dueDate < from || todo.dueDate > until) continue;
+        deadlines.push({
+          projectId: project.id,
+          projectName: project.name,
+          todoId: todo.id,
+          title: todo.title,
+          date: todo.dueDate,
+        });
+      }
+    }
+
+    deadlines.sort((a, b) => a.date.localeCompare(b.date));
+    return {
+      projects: projects.length,
+      byStatus,
+      costByCurrency,
+      averageProgress: projects.length ? progress / projects.length : 0,
+      overdue,
+      todosByStatus,
+      deadlines: deadlines.slice(0, Dashboard.MAX_DEADLINES),
+    };
+  }
+
+  /** Finish date in the past and not finished yet */
+  static isOverdue(project: Project, today: Date = new Date()): boolean {
+    return project.status !== "finished" && ProjectFilter.finishDay(project) < Project.toDay(today);
+  }
+
+  static matches(project: Project, filter: DashboardFilter, today: Date = new Date()): boolean {
+    switch (filter.kind) {
+      case "status":
+        return project.status === filter.status;
+      case "overdue":
+        return Dashboard.isOverdue(project, today);
+      case "todos":
+        return project.todos.some((t) => t.status === filter.status);
+      case "upcoming": {
+        const finish = ProjectFilter.finishDay(project);
+        return (
+          project.status !== "finished" &&
+          finish >= Project.toDay(today) &&
+          finish <= Dashboard.upcomingLimit(today)
+        );
+      }
+    }
+  }
+
+  /** Banner text of the filtered projects list */
+  static describe(filter: DashboardFilter): string {
+    switch (filter.kind) {
+      case "status":
+        return `Status: ${ProjectFilter.STATUS_LABELS[filter.status]}`;
+      case "overdue":
+        return "Overdue projects";
+      case "todos":
+        return `Projects with ToDos in "${filter.status.replace("_", " ")}"`;
+      case "upcoming":
+        return `Finishing in the next ${Dashboard.UPCOMING_DAYS} days`;
+    }
+  }
+
+  private static upcomingLimit(today: Date): string {
+    return Project.toDay(
+      new Date(today.getFullYear(), today.getMonth(), today.getDate() + Dashboard.UPCOMING_DAYS)
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { ProjectStatus, TodoStatus } from "./Project";
+import { ProjectsManager } from "./ProjectsManager";
+import { Dashboard, DashboardFilter, DashboardStats } from "./Dashboard";
+import { TodoFilter } from "./TodoFilter";
+import { ProjectFilter } from "./ProjectFilter";
+import { Budget } from "./Budget";
+
+type ChartRow = {
+  label: string;
+  count: number;
+  filter: DashboardFilter;
+  state: string; // data-state of the bar (colour)
+};
+
+/** Portfolio overview of the projects in the main list (archived / trashed are left out) */
+export class DashboardPage {
+  ui: HTMLElement;
+  projects: ProjectsManager;
+
+  // Chart / KPI click => projects list filtered by `filter`
+  onDrillDown: ((filter: DashboardFilter) => void) | null = null;
+
+  // Deadline click => project details (framing the ToDo of a due date)
+  onOpenProject: ((projectId: string, todoId?: string) => void) | null = null;
+
+  constructor(container: HTMLElement, projects: ProjectsManager) {
+    this.ui = container;
+    this.projects = projects;
+
+    this.ui.querySelectorAll<HTMLElement>("[data-dashboard-drill]").forEach((el) => {
+      el.addEventListener("click", () => {
+        if (el.dataset.dashboardDrill === "overdue") this.onDrillDown?.({ kind: "overdue" });
+        if (el.dataset.dashboardDrill === "upcoming") this.onDrillDown?.({ kind: "upcoming" });
+      });
+    });
+  }
+
+  get isVisible(): boolean {
+    return this.ui.style.display !== "none";
+  }
+
+  render() {
+    const stats = Dashboard.summarize(this.projects.getProjectsInView("active"));
+    this.renderKpis(stats);
+
+    const byStatus = this.ui.querySelector("#dashboard-status-chart") as HTMLElement | null;
+    if (byStatus) {
+      this.renderChart(
+        byStatus,
+        ProjectFilter.STATUSES.map((status: ProjectStatus) => ({
+          label: ProjectFilter.STATUS_LABELS[status],
+          count: stats.byStatus[status],
+          filter: { kind: "status", status },
+          state: status,
+        }))
+      );
+    }
+
+    const todos = this.ui.querySelector("#dashboard-todos-chart") as HTMLElement | null;
+    if (todos) {
+      this.renderChart(
+        todos,
+        TodoFilter.STATUSES.map((status: TodoStatus) => ({
+          label: TodoFilter.STATUS_LABELS[status],
+          count: stats.todosByStatus[status],
+          filter: { kind: "todos", status },
+          state: status,
+        }))
+      );
+    }
+
+    this.renderDeadlines(stats);
+  }
+
+  private renderKpis(stats: DashboardStats) {
+    const set = (key: string, text: string) => {
+      const el = this.ui.querySelector(`[data-dashboard-kpi="${key}"]`) as HTMLElement | null;
+      if (el) el.textContent = text;
+    };
+
+    const costs = Object.entries(stats.costByCurrency)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([currency, amount]) => Budget.format(amount, currency));
+
+    set("projects", String(stats.projects));
+    set("active", String(stats.byStatus.active));
+    set("cost", costs.length ? costs.join(" · ") : "-");
+    set("progress", `${Math.round(stats.averageProgress * 100)}%`);
+    set("overdue", String(stats.overdue));
+
+    const overdueCard = this.ui.querySelector("[data-dashboard-drill='overdue']") as HTMLElement | null;
+    overdueCard?.classList.toggle("dashboard-kpi-alert", stats.overdue > 0);
+  }
+
+  /** Horizontal bars scaled to the biggest row; a click drills down into the list */
+  private renderChart(container: HTMLElement, rows: ChartRow[]) {
+    container.innerHTML = "";
+    const max = Math.max(1, ...rows.map((r) => r.count));
+
+    for (const row of rows) {
+      const item = document.createElement("button");
+      item.type = "button";
+      item.className = "chart-row";
+      item.disabled = row.count === 0;
+      item.title = row.count ? "Show these projects" : "";
+      item.innerHTML = `
+        <span class="chart-label"></span>
+        <span class="chart-bar" data-state="${row.state}"><span class="chart-bar-fill"></span></span>
+        <span class="chart-count">${row.count}</span>
+      `;
+      (item.querySelector(".chart-label") as HTMLElement).textContent = row.label;
+      (item.querySelector(".chart-bar-fill") as HTMLElement).style.width =
+        `${(row.count / max) * 100}%`;
+      item.addEventListener("click", () => this.onDrillDown?.(row.filter));
+      container.append(item);
+    }
+  }
+
+  private renderDeadlines(stats: DashboardStats) {
+    const list = this.ui.querySelector("#dashboard-deadlines") as HTMLElement | null;
+    if (!list) return;
+    list.innerHTML = "";
+
+    if (!stats.deadlines.length) {
+      const empty = document.createElement("p");
+      empty.className = "todo-empty";
+      empty.textContent = `Nothing due in the next ${Dashboard.UPCOMING_DAYS} days.`;
+      list.append(empty);
+      return;
+    }
+
+    for (const deadline of stats.deadlines) {
+      const row = document.createElement("div");
+      row.className = "deadline-row";
+      row.innerHTML = `
+        <span class="material-icons-round">${deadline.todoId ? "task_alt" : "flag"}</span>
+        <div class="deadline-main">
+          <p class="deadline-title"></p>
+          <p class="muted deadline-project"></p>
+        </div>
+        <span class="deadline-date"></span>
+      `;
+      (row.querySelector(".deadline-title") as HTMLElement).textContent = deadline.title;
+      (row.querySelector(".deadline-project") as HTMLElement).textContent = deadline.projectName;
+      (row.querySelector(".deadline-date") as HTMLElement).textContent = deadline.date;
+      row.addEventListener("click", () => this.onOpenProject?.(deadline.projectId, deadline.todoId));
+      list.append(row);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/** Typed publish / subscribe; `Events` maps each event name to its payload */
+export class EventBus<Events extends Record<string, unknown>> {
+  private handlers: { [K in keyof Events]?: Set<(payload: Events[K]) => void> } = {};
+
+  /** Calls `handler` on every `event`; returns the unsubscribe function */
+  subscribe<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): () => void {
+    const handlers = this.handlers[event] ?? new Set();
+    handlers.add(handler);
+    this.handlers[event] = handlers;
+    return () => this.unsubscribe(event, handler);
+  }
+
+  unsubscribe<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void) {
+    this.handlers[event]?.delete(handler);
+  }
+
+  /** A failing handler is logged and doesn't stop the others (or the change itself) */
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    for (const handler of [...(this.handlers[event] ?? [])]) {
+      try {
+        handler(payload);
+      } catch (err) {
+        console.error(`"${String(event)}" handler failed.`, err);
+      }
+    }
+  }
+}
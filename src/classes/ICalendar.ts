@@ -0,0 +1,82 @@
+import { CalendarEvent } from "./Calendar";
+import { Schedule } from "./Schedule";
+
+/**
+ * iCalendar (RFC 5545) writer for all-day deadlines, readable by
+ * Outlook, Google Calendar and Apple Calendar.
+ */
+export class ICalendar {
+  static readonly PRODUCT_ID = "-//OTACC//BIM App//EN";
+  static readonly UID_DOMAIN = "otacc-bim-app";
+
+  static build(events: CalendarEvent[], calendarName: string, now: Date = new Date()): string {
+    const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${ICalendar.PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${ICalendar.escape(calendarName)}`,
+    ];
+
+    for (const event of events) {
+      const title = event.todoId ? `${event.title} (${event.projectName})` : event.title;
+      const summary = event.done ? `✓ ${title}` : title;
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${event.uid}@${ICalendar.UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${ICalendar.date(event.date)}`,
+        // All-day events end on the next day (exclusive)
+        `DTEND;VALUE=DATE:${ICalendar.date(Schedule.addDays(event.date, 1))}`,
+        `SUMMARY:${ICalendar.escape(summary)}`,
+        `CATEGORIES:${event.todoId ? "ToDo" : "Project"}`,
+        "TRANSP:TRANSPARENT"
+      );
+      if (event.description) lines.push(`DESCRIPTION:${ICalendar.escape(event.description)}`);
+      lines.push("END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map((line) => ICalendar.fold(line)).join("\r\n") + "\r\n";
+  }
+
+  /** "2024-05-01" => "20240501" */
+  private static date(day: string): string {
+    return day.replace(/-/g, "");
+  }
+
+  /** TEXT value escaping (backslash, comma, semicolon, newlines) */
+  static escape(text: string): string {
+    return text
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+  }
+
+  /** Lines longer than 75 octets continue on the next line after a space */
+  static fold(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    let size = 0;
+    for (const char of line) {
+      const bytes = encoder.encode(char).length;
+      // Continuation lines start with a space, which counts too
+      const limit = parts.length ? 74 : 75;
+      if (size + bytes > limit) {
+        parts.push(current);
+        current = "";
+        size = 0;
+      }
+      current += char;
+      size += bytes;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+  }
+}
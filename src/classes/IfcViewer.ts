@@ -0,0 +1,540 @@
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import * as WEBIFC from "web-ifc";
+import wasmUrl from "web-ifc/web-ifc.wasm?url";
+import { IViewpoint } from "./Project";
+
+/** IFC file ready to be opened (bytes already read from storage) */
+export interface IfcModelSource {
+  id: string;
+  name: string;
+  data: Uint8Array;
+}
+
+export type ViewerEls = {
+  canvasHost: HTMLElement; // #viewer-canvas
+  tree: HTMLElement | null; // #viewer-tree
+  properties: HTMLElement | null; // #viewer-properties
+};
+
+type LoadedModel = {
+  sourceId: string;
+  name: string;
+  modelID: number; // web-ifc handle
+  group: THREE.Group;
+  // expressID => meshes (one element can have several placed geometries)
+  items: Map<number, THREE.Mesh[]>;
+  // GlobalId => expressID, built on first lookup
+  guids: Map<string, number> | null;
+};
+
+type SpatialNode = {
+  expressID: number;
+  type: string;
+  children: SpatialNode[];
+  Name?: { value?: string } | null;
+};
+
+export class IfcViewer {
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  renderer: THREE.WebGLRenderer;
+  controls: OrbitControls;
+
+  private els: ViewerEls;
+  private ifcApi = new WEBIFC.IfcAPI();
+  private ready: Promise<void> | null = null;
+  private models: LoadedModel[] = [];
+
+  // Incremented on every load(): lets a slow load notice it was superseded
+  private loadToken = 0;
+
+  private materials = new Map<string, THREE.MeshLambertMaterial>();
+  private highlightMaterial = new THREE.MeshLambertMaterial({
+    color: 0x029ae0,
+    transparent: true,
+    opacity: 0.9,
+    depthTest: true,
+  });
+  private highlighted: THREE.Mesh[] = [];
+  private selection: { model: LoadedModel; expressIDs: number[] } | null = null;
+
+  constructor(els: ViewerEls) {
+    this.els = els;
+
+    this.scene = new THREE.Scene();
+    this.scene.background = new THREE.Color("#26282b");
+
+    this.camera = new THREE.PerspectiveCamera(60, 1, 0.1, 5000);
+    this.camera.position.set(20, 20, 20);
+
+    this.renderer = new THREE.WebGLRenderer({ antialias: true });
+    this.renderer.setPixelRatio(window.devicePixelRatio);
+    els.canvasHost.append(this.renderer.domElement);
+
+    // Orbit (left), pan (right), zoom (wheel)
+    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
+    this.controls.enableDamping = true;
+
+    this.scene.add(new THREE.AmbientLight(0xffffff, 0.8));
+    const sun = new THREE.DirectionalLight(0xffffff, 1.6);
+    sun.position.set(50, 80, 30);
+    this.scene.add(sun);
+    this.scene.add(new THREE.GridHelper(100, 50, 0x415a66, 0x3b3c3f));
+
+    // Keep canvas size in sync with the card; it has no size while hidden
+    // (other pages), and only renders while it has one
+    new ResizeObserver(() => this.resize()).observe(els.canvasHost);
+    this.resize();
+
+    this.bindPicking();
+  }
+
+  // ---------- Public API ----------
+
+  /** Replaces whatever is loaded with the given IFC files */
+  async load(sources: IfcModelSource[]) {
+    const token = ++this.loadToken;
+    this.clear();
+
+    if (!sources.length) {
+      this.renderTreeMessage("No IFC models attached to this project.");
+      return;
+    }
+
+    await this.init();
+
+    for (const source of sources) {
+      if (token !== this.loadToken) return; // another project was opened meanwhile
+      try {
+        const model = this.openModel(source);
+        this.models.push(model);
+        this.scene.add(model.group);
+      } catch (err) {
+        console.error(`IFC model "${source.name}" could not be opened.`, err);
+      }
+    }
+
+    if (token !== this.loadToken) return;
+    this.fitToView(this.models.flatMap((m) => m.group.children as THREE.Mesh[]));
+    await this.renderTree(token);
+  }
+
+  /** GlobalIds of the currently selected elements (empty if nothing selected) */
+  getSelectedGlobalIds(): string[] {
+    if (!this.selection) return [];
+    const { model, expressIDs } = this.selection;
+
+    const guids: string[] = [];
+    for (const id of expressIDs) {
+      const guid = this.ifcApi.GetLine(model.modelID, id)?.GlobalId?.value;
+      if (typeof guid === "string" && !guids.includes(guid)) guids.push(guid);
+    }
+    return guids;
+  }
+
+  getViewpoint(): IViewpoint {
+    const p = this.camera.position;
+    const t = this.controls.target;
+    return { position: [p.x, p.y, p.z], target: [t.x, t.y, t.z] };
+  }
+
+  /**
+   * Highlights the elements with the given GlobalIds (across all loaded models)
+   * and frames them, or restores the saved viewpoint if one is given.
+   * Returns how many of the GlobalIds were found.
+   */
+  focusElements(globalIds: string[], viewpoint?: IViewpoint | null): number {
+    const meshes: THREE.Mesh[] = [];
+    let found = 0;
+
+    for (const guid of globalIds) {
+      for (const model of this.models) {
+        const expressID = this.getGuidMap(model).get(guid);
+        if (expressID === undefined) continue;
+        meshes.push(...(model.items.get(expressID) ?? []));
+        found++;
+        break;
+      }
+    }
+
+    this.selection = null;
+    this.highlight(meshes);
+    if (viewpoint) {
+      this.setViewpoint(viewpoint);
+    } else {
+      this.fitToView(meshes);
+    }
+    return found;
+  }
+
+  /**
+   * Renders the given elements / viewpoint and returns a PNG data URL.
+   * The current camera and highlight are restored afterwards.
+   */
+  snapshot(globalIds: string[], viewpoint?: IViewpoint | null): string {
+    const previousView = this.getViewpoint();
+    const previousHighlight = this.highlighted;
+    const previousSelection = this.selection;
+
+    this.focusElements(globalIds, viewpoint);
+    this.controls.update();
+    this.renderer.render(this.scene, this.camera);
+    // Must be read right after render (drawing buffer is not preserved)
+    const dataUrl = this.renderer.domElement.toDataURL("image/png");
+
+    this.highlight(previousHighlight);
+    this.selection = previousSelection;
+    this.setViewpoint(previousView);
+    return dataUrl;
+  }
+
+  /** Removes every model from the scene and frees web-ifc memory */
+  clear() {
+    this.selection = null;
+    this.highlight([]);
+    for (const model of this.models) {
+      this.scene.remove(model.group);
+      model.group.traverse((obj) => {
+        if (obj instanceof THREE.Mesh) obj.geometry.dispose();
+      });
+      this.ifcApi.CloseModel(model.modelID);
+    }
+    this.models = [];
+    if (this.els.tree) this.els.tree.innerHTML = "";
+    this.renderPropertiesMessage("Select an element to see its properties.");
+  }
+
+  // ---------- Loading ----------
+
+  /** Loads the wasm bundled from the installed web-ifc; a failed load is retried next time */
+  private init(): Promise<void> {
+    if (this.ready) return this.ready;
+    this.ready = this.ifcApi.Init(() => wasmUrl, true).catch((err) => {
+      this.ready = null;
+      throw err;
+    });
+    return this.ready;
+  }
+
+  private openModel(source: IfcModelSource): LoadedModel {
+    const modelID = this.ifcApi.OpenModel(source.data, { COORDINATE_TO_ORIGIN: true });
+    if (modelID < 0) throw new Error("web-ifc rejected the file");
+
+    const group = new THREE.Group();
+    group.name = source.name;
+    const items = new Map<number, THREE.Mesh[]>();
+
+    this.ifcApi.StreamAllMeshes(modelID, (flatMesh) => {
+      const placed = flatMesh.geometries;
+      for (let i = 0; i < placed.size(); i++) {
+        const mesh = this.createMesh(modelID, placed.get(i));
+        mesh.userData = { modelID, expressID: flatMesh.expressID };
+        group.add(mesh);
+
+        const list = items.get(flatMesh.expressID) ?? [];
+        list.push(mesh);
+        items.set(flatMesh.expressID, list);
+      }
+    });
+
+    return { sourceId: source.id, name: source.name, modelID, group, items, guids: null };
+  }
+
+  private createMesh(modelID: number, placed: WEBIFC.PlacedGeometry): THREE.Mesh {
+    const geometry = this.ifcApi.GetGeometry(modelID, placed.geometryExpressID);
+    const vertices = this.ifcApi.GetVertexArray(
+      geometry.GetVertexData(),
+      geometry.GetVertexDataSize()
+    );
+    const indices = this.ifcApi.GetIndexArray(
+      geometry.GetIndexData(),
+      geometry.GetIndexDataSize()
+    );
+
+    // web-ifc vertices are interleaved: x, y, z, nx, ny, nz
+    const buffer = new THREE.InterleavedBuffer(new Float32Array(vertices), 6);
+    const bufferGeometry = new THREE.BufferGeometry();
+    bufferGeometry.setAttribute("position", new THREE.InterleavedBufferAttribute(buffer, 3, 0));
+    bufferGeometry.setAttribute("normal", new THREE.InterleavedBufferAttribute(buffer, 3, 3));
+    bufferGeometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indices), 1));
+    geometry.delete();
+
+    const mesh = new THREE.Mesh(bufferGeometry, this.getMaterial(placed.color));
+    mesh.matrixAutoUpdate = false;
+    mesh.matrix.fromArray(placed.flatTransformation);
+    return mesh;
+  }
+
+  /** One shared material per IFC color (keeps draw state small) */
+  private getMaterial(color: WEBIFC.Color): THREE.MeshLambertMaterial {
+    const key = `${color.x}-${color.y}-${color.z}-${color.w}`;
+    let material = this.materials.get(key);
+    if (!material) {
+      material = new THREE.MeshLambertMaterial({
+        color: new THREE.Color(color.x, color.y, color.z),
+        transparent: color.w < 1,
+        opacity: color.w,
+        side: THREE.DoubleSide,
+      });
+      this.materials.set(key, material);
+    }
+    return material;
+  }
+
+  // ---------- Selection ----------
+
+  /** Paints the given meshes with the highlight material (empty array clears) */
+  private highlight(meshes: THREE.Mesh[]) {
+    for (const mesh of this.highlighted) {
+      mesh.material = mesh.userData.originalMaterial;
+    }
+    for (const mesh of meshes) {
+      mesh.userData.originalMaterial = mesh.material;
+      mesh.material = this.highlightMaterial;
+    }
+    this.highlighted = meshes;
+  }
+
+  private fitToView(meshes: THREE.Mesh[]) {
+    if (!meshes.length) return;
+
+    const box = new THREE.Box3();
+    for (const mesh of meshes) {
+      mesh.updateWorldMatrix(true, false);
+      box.expandByObject(mesh);
+    }
+    if (box.isEmpty()) return;
+
+    const center = box.getCenter(new THREE.Vector3());
+    const radius = box.getBoundingSphere(new THREE.Sphere()).radius || 1;
+    const distance = radius / Math.sin(THREE.MathUtils.degToRad(this.camera.fov / 2));
+    const direction = new THREE.Vector3(1, 0.8, 1).normalize();
+
+    this.controls.target.copy(center);
+    this.camera.position.copy(center).addScaledVector(direction, distance);
+    this.camera.near = distance / 1000;
+    this.camera.far = distance * 10;
+    this.camera.updateProjectionMatrix();
+  }
+
+  private setViewpoint(viewpoint: IViewpoint) {
+    this.camera.position.fromArray(viewpoint.position);
+    this.controls.target.fromArray(viewpoint.target);
+    this.camera.updateProjectionMatrix();
+  }
+
+  /** Only elements with geometry are indexed: those are the ones we can highlight */
+  private getGuidMap(model: LoadedModel): Map<string, number> {
+    if (model.guids) return model.guids;
+
+    model.guids = new Map();
+    for (const expressID of model.items.keys()) {
+      const guid = this.ifcApi.GetLine(model.modelID, expressID)?.GlobalId?.value;
+      if (typeof guid === "string") model.guids.set(guid, expressID);
+    }
+    return model.guids;
+  }
+
+  private async selectElement(model: LoadedModel, expressIDs: number[], frame: boolean) {
+    this.selection = { model, expressIDs };
+    const meshes = expressIDs.flatMap((id) => model.items.get(id) ?? []);
+    this.highlight(meshes);
+    if (frame) this.fitToView(meshes);
+    await this.renderProperties(model, expressIDs[0]);
+  }
+
+  private bindPicking() {
+    const canvas = this.renderer.domElement;
+    const raycaster = new THREE.Raycaster();
+    let downX = 0;
+    let downY = 0;
+
+    canvas.addEventListener("pointerdown", (e) => {
+      downX = e.clientX;
+      downY = e.clientY;
+    });
+
+    canvas.addEventListener("pointerup", (e) => {
+      // Ignore orbit / pan drags
+      if (Math.hypot(e.clientX - downX, e.clientY - downY) > 4) return;
+
+      const rect = canvas.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        -((e.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, this.camera);
+
+      const hit = raycaster.intersectObjects(this.models.map((m) => m.group), true)[0];
+      if (!hit) {
+        this.selection = null;
+        this.highlight([]);
+        this.renderPropertiesMessage("Select an element to see its properties.");
+        return;
+      }
+
+      const { modelID, expressID } = hit.object.userData as { modelID: number; expressID: number };
+      const model = this.models.find((m) => m.modelID === modelID);
+      if (model) this.selectElement(model, [expressID], false);
+    });
+  }
+
+  private resize() {
+    const { clientWidth, clientHeight } = this.els.canvasHost;
+    if (!clientWidth || !clientHeight) {
+      this.renderer.setAnimationLoop(null);
+      return;
+    }
+    this.camera.aspect = clientWidth / clientHeight;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(clientWidth, clientHeight);
+    this.renderer.setAnimationLoop(() => {
+      this.controls.update();
+      this.renderer.render(this.scene, this.camera);
+    });
+  }
+
+  // ---------- Spatial tree ----------
+
+  private async renderTree(token: number) {
+    const container = this.els.tree;
+    if (!container) return;
+    container.innerHTML = "";
+
+    for (const model of this.models) {
+      let root: SpatialNode;
+      try {
+        root = (await this.ifcApi.properties.getSpatialStructure(
+          model.modelID,
+          true
+        )) as SpatialNode;
+      } catch (err) {
+        console.error(`Spatial structure of "${model.name}" could not be read.`, err);
+        continue;
+      }
+      if (token !== this.loadToken) return;
+
+      const details = document.createElement("details");
+      details.open = true;
+      const summary = document.createElement("summary");
+      summary.textContent = model.name;
+      details.append(summary, this.createTreeNode(model, root));
+      container.append(details);
+    }
+  }
+
+  private createTreeNode(model: LoadedModel, node: SpatialNode): HTMLElement {
+    const label = document.createElement("span");
+    label.className = "viewer-tree-label";
+    const name = node.Name?.value;
+    label.textContent = name ? `${node.type} · ${name}` : node.type;
+    label.addEventListener("click", (e) => {
+      e.preventDefault();
+      this.selectElement(model, IfcViewer.collectIds(node), true);
+    });
+
+    if (!node.children.length) {
+      const leaf = document.createElement("div");
+      leaf.className = "viewer-tree-leaf";
+      leaf.append(label);
+      return leaf;
+    }
+
+    const details = document.createElement("details");
+    const summary = document.createElement("summary");
+    summary.append(label);
+    details.append(summary);
+    for (const child of node.children) {
+      details.append(this.createTreeNode(model, child));
+    }
+    return details;
+  }
+
+  private renderTreeMessage(message: string) {
+    if (!this.els.tree) return;
+    this.els.tree.innerHTML = "";
+    const p = document.createElement("p");
+    p.className = "muted";
+    p.textContent = message;
+    this.els.tree.append(p);
+  }
+
+  // ---------- Properties ----------
+
+  private async renderProperties(model: LoadedModel, expressID: number) {
+    const container = this.els.properties;
+    if (!container) return;
+
+    const item = await this.ifcApi.properties.getItemProperties(model.modelID, expressID);
+    const psets = await this.ifcApi.properties.getPropertySets(model.modelID, expressID, true);
+
+    container.innerHTML = "";
+    const typeName = this.ifcApi.GetNameFromTypeCode(
+      this.ifcApi.GetLineType(model.modelID, expressID)
+    );
+
+    container.append(
+      IfcViewer.createPropertyTable("Element", [
+        ["Type", typeName],
+        ["Name", IfcViewer.readValue(item?.Name)],
+        ["GlobalId", IfcViewer.readValue(item?.GlobalId)],
+        ["ObjectType", IfcViewer.readValue(item?.ObjectType)],
+        ["Tag", IfcViewer.readValue(item?.Tag)],
+      ])
+    );
+
+    for (const pset of psets) {
+      const props: any[] = pset.HasProperties ?? pset.Quantities ?? [];
+      const rows: [string, string][] = props.map((p) => [
+        IfcViewer.readValue(p?.Name),
+        IfcViewer.readValue(p?.NominalValue ?? p?.LengthValue ?? p?.AreaValue ?? p?.VolumeValue),
+      ]);
+      container.append(IfcViewer.createPropertyTable(IfcViewer.readValue(pset.Name), rows));
+    }
+  }
+
+  private renderPropertiesMessage(message: string) {
+    if (!this.els.properties) return;
+    this.els.properties.innerHTML = "";
+    const p = document.createElement("p");
+    p.className = "muted";
+    p.textContent = message;
+    this.els.properties.append(p);
+  }
+
+  // ---------- Helpers ----------
+
+  private static createPropertyTable(title: string, rows: [string, string][]): HTMLElement {
+    const section = document.createElement("div");
+    section.className = "viewer-pset";
+
+    const heading = document.createElement("h5");
+    heading.textContent = title || "-";
+    section.append(heading);
+
+    const table = document.createElement("table");
+    for (const [key, value] of rows) {
+      const tr = document.createElement("tr");
+      const th = document.createElement("th");
+      th.textContent = key;
+      const td = document.createElement("td");
+      td.textContent = value;
+      tr.append(th, td);
+      table.append(tr);
+    }
+    section.append(table);
+    return section;
+  }
+
+  /** web-ifc wraps attribute values as { value }; missing values => "-" */
+  private static readValue(attr: any): string {
+    if (attr === null || attr === undefined) return "-";
+    if (typeof attr === "object" && "value" in attr) return String(attr.value);
+    return String(attr);
+  }
+
+  private static collectIds(node: SpatialNode): number[] {
+    return [node.expressID, ...node.children.flatMap((c) => IfcViewer.collectIds(c))];
+  }
+}
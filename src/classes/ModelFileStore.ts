@@ -0,0 +1,78 @@
+/**
+ * Binary storage for attached IFC files.
+ * Projects only keep lightweight IModelFile references (see Project.models);
+ * the bytes live here, keyed by the same model id.
+ */
+export class ModelFileStore {
+  private dbName: string;
+  private storeName = "files";
+  private db: Promise<IDBDatabase> | null = null;
+
+  // Fallback when IndexedDB is not available (files only live for the session)
+  private memory = new Map<string, ArrayBuffer>();
+
+  constructor(dbName: string = "otacc-bim-models") {
+    this.dbName = dbName;
+  }
+
+  async put(id: string, data: ArrayBuffer): Promise<void> {
+    if (!ModelFileStore.hasIndexedDB()) {
+      this.memory.set(id, data);
+      return;
+    }
+    const store = await this.getStore("readwrite");
+    await ModelFileStore.request(store.put(data, id));
+  }
+
+  /** Returns the file bytes, or null if the file is not stored on this device */
+  async get(id: string): Promise<Uint8Array | null> {
+    if (!ModelFileStore.hasIndexedDB()) {
+      const data = this.memory.get(id);
+      return data ? new Uint8Array(data) : null;
+    }
+    const store = await this.getStore("readonly");
+    const data = await ModelFileStore.request(store.get(id));
+    return data instanceof ArrayBuffer ? new Uint8Array(data) : null;
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!ModelFileStore.hasIndexedDB()) {
+      this.memory.delete(id);
+      return;
+    }
+    const store = await this.getStore("readwrite");
+    await ModelFileStore.request(store.delete(id));
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    this.db = new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.dbName, 1);
+      req.addEventListener("upgradeneeded", () => {
+        if (!req.result.objectStoreNames.contains(this.storeName)) {
+          req.result.createObjectStore(this.storeName);
+        }
+      });
+      req.addEventListener("success", () => resolve(req.result));
+      req.addEventListener("error", () => reject(req.error));
+    });
+    return this.db;
+  }
+
+  private static hasIndexedDB() {
+    return typeof indexedDB !== "undefined";
+  }
+
+  private static request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      req.addEventListener("success", () => resolve(req.result));
+      req.addEventListener("error", () => reject(req.error));
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import { UserRole } from "./Project";
+
+export type Permission =
+  | "project:edit" // name, description, status
+  | "project:editSchedule" // cost, start / finish date, progress
+  | "project:editRole"
+  | "project:archive"
+  | "project:delete" // move to trash, restore, purge
+  | "project:members"
+  | "project:import"
+  | "todo:create"
+  | "todo:edit" // title, assignee, linked elements
+  | "todo:status"
+  | "todo:delete"
+  | "model:manage";
+
+/** Thrown when the current role is not allowed to perform an action */
+export class PermissionError extends Error {
+  role: UserRole;
+  permission: Permission;
+
+  constructor(role: UserRole, permission: Permission) {
+    super(`A ${role} is not allowed to ${Permissions.DESCRIPTIONS[permission]}.`);
+    this.name = "PermissionError";
+    this.role = role;
+    this.permission = permission;
+  }
+}
+
+/**
+ * Role => allowed actions. The role is the project's `userRole`
+ * (the current user's role in that project).
+ */
+export class Permissions {
+  static readonly MATRIX: Record<UserRole, Permission[]> = {
+    architect: [
+      "project:edit",
+      "project:editSchedule",
+      "project:editRole",
+      "project:archive",
+      "project:delete",
+      "project:members",
+      "project:import",
+      "todo:create",
+      "todo:edit",
+      "todo:status",
+      "todo:delete",
+      "model:manage",
+    ],
+    engineer: [
+      "project:edit",
+      "project:import",
+      "todo:create",
+      "todo:edit",
+      "todo:status",
+      "todo:delete",
+      "model:manage",
+    ],
+    developer: ["todo:status"],
+  };
+
+  // Used in error messages ("A developer is not allowed to ...")
+  static readonly DESCRIPTIONS: Record<Permission, string> = {
+    "project:edit": "edit the project",
+    "project:editSchedule": "change the project's cost, dates or progress",
+    "project:editRole": "change the project role",
+    "project:archive": "archive the project",
+    "project:delete": "delete or restore the project",
+    "project:members": "manage the project team",
+    "project:import": "import data into the project",
+    "todo:create": "create ToDos",
+    "todo:edit": "edit ToDos",
+    "todo:status": "change ToDo status",
+    "todo:delete": "delete ToDos",
+    "model:manage": "attach or detach IFC models",
+  };
+
+  static can(role: UserRole, permission: Permission): boolean {
+    return Permissions.MATRIX[role]?.includes(permission) ?? false;
+  }
+
+  /** Throws a PermissionError when the role lacks the permission */
+  static assert(role: UserRole, permission: Permission) {
+    if (!Permissions.can(role, permission)) {
+      throw new PermissionError(role, permission);
+    }
+  }
+}
@@ -1,9 +1,27 @@
 import { v4 as uuidv4 } from "uuid";
+import { Budget } from "./Budget";
 
 export type ProjectStatus = "pending" | "active" | "finished";
 export type UserRole = "architect" | "engineer" | "developer";
 
 export type TodoStatus = "pending" | "in_progress" | "done" | "blocked";
+export type TodoPriority = "low" | "medium" | "high" | "critical";
+
+/** Where the project progress comes from */
+export type ProgressMode = "manual" | "todos" | "milestones";
+
+/** Sub-task of a ToDo */
+export interface IChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+/** Camera position + orbit target, as plain arrays so it can be serialized */
+export interface IViewpoint {
+  position: [number, number, number];
+  target: [number, number, number];
+}
 
 export interface ITodo {
   id: string;
@@ -11,6 +29,108 @@ export interface ITodo {
   status: TodoStatus;
   createdAt: string; // ISO
   updatedAt: string; // ISO
+
+  // Linked BIM elements (IFC GlobalIds) + saved camera
+  elements?: string[];
+  viewpoint?: IViewpoint;
+
+  // Assigned team member (User id)
+  assigneeId?: string;
+
+  // Position inside its status column on the board (lower first)
+  rank?: number;
+
+  // Planning details
+  priority: TodoPriority;
+  dueDate?: string; // YYYY-MM-DD
+  description?: string;
+  tags?: string[];
+  checklist?: IChecklistItem[];
+
+  // Share of the todo / milestone based progress (default 1)
+  weight?: number;
+  milestone?: boolean;
+
+  // Planned work window on the timeline (inclusive days)
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+
+  // ToDos (ids) that must be finished before this one can start
+  dependsOn?: string[];
+}
+
+/** Editable ToDo fields */
+export type TodoData = Partial<
+  Pick<
+    ITodo,
+    | "title"
+    | "status"
+    | "elements"
+    | "viewpoint"
+    | "assigneeId"
+    | "priority"
+    | "dueDate"
+    | "description"
+    | "tags"
+    | "checklist"
+    | "weight"
+    | "milestone"
+    | "startDate"
+    | "endDate"
+    | "dependsOn"
+  >
+>;
+
+export type ActivityAction =
+  | "project.created"
+  | "project.updated"
+  | "project.imported"
+  | "project.archived"
+  | "project.unarchived"
+  | "project.trashed"
+  | "project.restored"
+  | "project.members"
+  | "project.costs"
+  | "project.reverted"
+  | "todo.created"
+  | "todo.updated"
+  | "todo.deleted";
+
+/** One field's value before / after a change (null = not set) */
+export interface IFieldChange {
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+/** Append-only activity log entry */
+export interface IActivity {
+  id: string;
+  at: string; // ISO
+  action: ActivityAction;
+  actor: UserRole; // role of the current user when the change was made
+  todoId?: string;
+  label?: string; // ToDo title, undo description...
+  changes: IFieldChange[];
+}
+
+export type CostCategory = "labor" | "materials" | "equipment" | "subcontract" | "fees" | "other";
+
+/** One spending entry of the project budget */
+export interface ICostItem {
+  id: string;
+  description: string;
+  category: CostCategory;
+  date: string; // YYYY-MM-DD
+  amount: number; // in the project currency (negative = credit / refund)
+}
+
+/** Reference to an attached IFC file (bytes are kept in ModelFileStore) */
+export interface IModelFile {
+  id: string;
+  name: string;
+  size: number; // bytes
+  addedAt: string; // ISO
 }
 
 export interface IProject {
@@ -19,21 +139,58 @@ export interface IProject {
   description: string;
   status: ProjectStatus;
   userRole: UserRole;
+  startDate?: Date | string | null; // missing = creation day
   finishDate?: Date | string | null;
 
   // Extra fields (optional but supported)
-  cost?: number;
-  progress?: number;
+  cost?: number; // actual spend (sum of costItems)
+  budget?: number; // 0 = no budget
+  currency?: string; // ISO 4217 ("USD")
+  costItems?: ICostItem[];
+  progress?: number; // 0..1 (derived from the ToDos unless progressMode is "manual")
+  progressMode?: ProgressMode;
 
   // UI extras to keep stable between sessions
   iconBg?: string;
 
   // Stored ToDos
   todos?: ITodo[];
+
+  // Attached IFC models
+  models?: IModelFile[];
+
+  // Assigned team members (User ids)
+  memberIds?: string[];
+
+  // Lifecycle: archived projects leave the main list, trashed ones wait for restore / purge
+  archived?: boolean;
+  deletedAt?: string | null; // ISO
+
+  // Timestamps + activity timeline
+  createdAt?: string; // ISO
+  updatedAt?: string; // ISO
+  activity?: IActivity[];
 }
 
 type UpdateProjectData = Partial<
-  Omit<IProject, "finishDate" | "todos"> & { finishDate?: Date | string | null }
+  Omit<
+    IProject,
+    | "startDate"
+    | "finishDate"
+    | "cost"
+    | "costItems"
+    | "todos"
+    | "models"
+    | "memberIds"
+    | "archived"
+    | "deletedAt"
+    | "createdAt"
+    | "updatedAt"
+    | "activity"
+  > & {
+    startDate?: Date | string | null;
+    finishDate?: Date | string | null;
+  }
 >;
 
 export class Project {
@@ -43,19 +200,38 @@ export class Project {
   description: string;
   status: ProjectStatus;
   userRole: UserRole;
+  startDate: Date;
   finishDate: Date;
 
-  cost: number;
-  progress: number;
+  budget: number;
+  currency: string;
+  costItems: ICostItem[] = [];
+  progressMode: ProgressMode = "manual";
+  manualProgress: number; // 0..1, only used in "manual" mode
 
   // ToDos
   todos: ITodo[] = [];
 
+  // Attached IFC models
+  models: IModelFile[] = [];
+
+  // Assigned team members (User ids)
+  memberIds: string[] = [];
+
+  // Lifecycle
+  archived: boolean = false;
+  deletedAt: string | null = null;
+
+  // Timestamps + append-only activity log
+  createdAt: string;
+  updatedAt: string;
+  activity: IActivity[] = [];
+
   // UI-related stable properties
   iconBg: string;
 
-  // UI element (card)
-  ui: HTMLDivElement;
+  // Views (card, details page) re-render when the project changes
+  private listeners: Set<(project: Project) => void> = new Set();
 
   // Palette for random icon backgrounds (5-6 colors)
   static readonly ICON_COLORS: string[] = [
@@ -67,6 +243,10 @@ export class Project {
     "#7F8C8D",
   ];
 
+  // Lowest first
+  static readonly TODO_PRIORITIES: TodoPriority[] = ["low", "medium", "high", "critical"];
+  static readonly TODO_STATUSES: TodoStatus[] = ["pending", "in_progress", "done", "blocked"];
+
   constructor(data: IProject) {
     // Required fields
     this.id = data.id ?? uuidv4();
@@ -79,8 +259,11 @@ export class Project {
     this.finishDate = Project.normalizeDate(data.finishDate);
 
     // Optional numeric fields
-    this.cost = typeof data.cost === "number" ? data.cost : 0;
-    this.progress = typeof data.progress === "number" ? data.progress : 0;
+    this.budget = typeof data.budget === "number" && data.budget > 0 ? data.budget : 0;
+    this.currency = Budget.normalizeCurrency(data.currency);
+    this.costItems = Project.normalizeCostItems(data);
+    this.manualProgress = typeof data.progress === "number" ? data.progress : 0;
+    this.progressMode = Project.normalizeProgressMode(data.progressMode);
 
     // Stable random color (if importing, preserve)
     this.iconBg =
@@ -92,59 +275,369 @@ export class Project {
       this.todos = data.todos.map((t) => Project.normalizeTodo(t));
     }
 
-    // Create UI card (kept for your current UI-driven prototype)
-    this.ui = this.createCardUI();
-    this.syncCardUI();
+    if (Array.isArray(data.models)) {
+      this.models = data.models.map((m) => Project.normalizeModel(m));
+    }
+
+    this.memberIds = Project.normalizeElements(data.memberIds) ?? [];
+
+    this.archived = data.archived === true;
+    this.deletedAt = typeof data.deletedAt === "string" ? data.deletedAt : null;
+
+    this.createdAt = typeof data.createdAt === "string" ? data.createdAt : new Date().toISOString();
+    this.updatedAt = typeof data.updatedAt === "string" ? data.updatedAt : this.createdAt;
+    this.activity = Project.normalizeActivity(data.activity);
+
+    // Needs createdAt + finishDate for the fallback
+    this.startDate = Project.normalizeStartDate(data.startDate, this.createdAt, this.finishDate);
+  }
+
+  // ---------- Change events ----------
+
+  /** Calls `listener` after every change; returns the unsubscribe function */
+  onChange(listener: (project: Project) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Notifies the views (call after direct field edits, e.g. imports) */
+  changed() {
+    for (const listener of [...this.listeners]) listener(this);
   }
 
   // ---------- Public API (used by ProjectsManager / index.ts) ----------
 
-  /** Updates domain fields and refreshes UI card */
-  update(data: UpdateProjectData) {
+  /** Updates domain fields, logs the changed ones and notifies the views */
+  update(data: UpdateProjectData, action: ActivityAction = "project.updated") {
+    const before = this.trackedFields();
+
     if (typeof data.name === "string") this.name = data.name.trim();
     if (typeof data.description === "string")
       this.description = data.description.trim();
     if (data.status) this.status = data.status;
     if (data.userRole) this.userRole = data.userRole;
     if ("finishDate" in data) this.finishDate = Project.normalizeDate(data.finishDate);
+    if ("startDate" in data) {
+      this.startDate = Project.normalizeStartDate(data.startDate, this.createdAt, this.finishDate);
+    }
 
-    if (typeof data.cost === "number") this.cost = data.cost;
-    if (typeof data.progress === "number") this.progress = data.progress;
+    if (typeof data.budget === "number") this.budget = Math.max(0, data.budget);
+    if (data.currency) this.currency = Budget.normalizeCurrency(data.currency);
+    if (typeof data.progress === "number") this.manualProgress = data.progress;
+    if (data.progressMode) this.progressMode = Project.normalizeProgressMode(data.progressMode);
 
     if (typeof data.iconBg === "string" && data.iconBg.trim()) {
       this.iconBg = data.iconBg.trim();
     }
 
-    this.syncCardUI();
+    const changes = Project.diffFields(before, this.trackedFields());
+    if (changes.length) this.log(action, changes);
+
+    this.changed();
+  }
+
+  /** Appends an activity entry (the log is never edited) */
+  log(
+    action: ActivityAction,
+    changes: IFieldChange[] = [],
+    extra: Pick<IActivity, "todoId" | "label"> = {}
+  ): IActivity {
+    const entry: IActivity = {
+      id: uuidv4(),
+      at: new Date().toISOString(),
+      action,
+      actor: this.userRole,
+      ...extra,
+      changes,
+    };
+    this.activity.push(entry);
+    this.updatedAt = entry.at;
+    return entry;
+  }
+
+  /** Imported entries are appended by id (local history is never rewritten) */
+  mergeActivity(entries: IActivity[] | undefined) {
+    const known = new Set(this.activity.map((a) => a.id));
+    const incoming = Project.normalizeActivity(entries).filter((a) => !known.has(a.id));
+    if (!incoming.length) return;
+    this.activity = [...this.activity, ...incoming].sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  /** Values shown in the activity log for project updates */
+  private trackedFields(): Record<string, string | number> {
+    return {
+      name: this.name,
+      description: this.description,
+      status: this.status,
+      role: this.userRole,
+      startDate: this.startDate.toISOString().slice(0, 10),
+      finishDate: this.finishDate.toISOString().slice(0, 10),
+      budget: this.budget,
+      currency: this.currency,
+      cost: this.cost,
+      progress: Math.round(this.progress * 100) / 100,
+      progressMode: this.progressMode,
+    };
+  }
+
+  /** Actual spend: sum of the cost line items */
+  get cost(): number {
+    return Budget.total(this.costItems);
+  }
+
+  /** 0..1, recalculated from the ToDos in "todos" / "milestones" mode */
+  get progress(): number {
+    return Project.computeProgress(this.todos, this.progressMode, this.manualProgress);
   }
 
   /** Adds a ToDo to this project */
-  addTodo(title: string, status: TodoStatus = "pending"): ITodo {
+  addTodo(title: string, status: TodoStatus = "pending", extra: TodoData = {}): ITodo {
     const now = new Date().toISOString();
-    const todo: ITodo = {
+    const todo = Project.normalizeTodo({
+      ...extra,
       id: uuidv4(),
-      title: title.trim(),
+      title,
       status,
       createdAt: now,
       updatedAt: now,
-    };
+      rank: this.nextRank(status),
+    });
     this.todos.push(todo);
+    this.log("todo.created", Project.diffFields({}, Project.todoFields(todo)), {
+      todoId: todo.id,
+      label: todo.title,
+    });
+    this.changed();
+    return todo;
+  }
+
+  /** Adds a ToDo moved / copied from another project (at the end of its board column) */
+  receiveTodo(data: Partial<ITodo>, note: string): ITodo {
+    const todo = Project.normalizeTodo(data);
+    todo.rank = this.nextRank(todo.status);
+    todo.updatedAt = new Date().toISOString();
+    this.todos.push(todo);
+    this.log("todo.created", Project.diffFields({}, Project.todoFields(todo)), {
+      todoId: todo.id,
+      label: `${todo.title} (${note})`,
+    });
+    this.changed();
     return todo;
   }
 
   /** Updates a ToDo by id */
-  updateTodo(id: string, data: Partial<Pick<ITodo, "title" | "status">>): ITodo | undefined {
+  updateTodo(id: string, data: TodoData): ITodo | undefined {
     const todo = this.todos.find((t) => t.id === id);
     if (!todo) return;
+    const before = Project.todoFields(todo);
+    const original = JSON.stringify(todo);
+
     if (typeof data.title === "string") todo.title = data.title.trim();
-    if (data.status) todo.status = data.status;
+    if (data.status && data.status !== todo.status) {
+      // Lands at the end of its new board column
+      todo.rank = this.nextRank(data.status);
+      todo.status = data.status;
+    }
+    if ("elements" in data) todo.elements = Project.normalizeElements(data.elements);
+    if ("viewpoint" in data) todo.viewpoint = Project.normalizeViewpoint(data.viewpoint);
+    if ("assigneeId" in data) todo.assigneeId = data.assigneeId?.trim() || undefined;
+    if (data.priority) todo.priority = Project.normalizePriority(data.priority);
+    if ("dueDate" in data) todo.dueDate = Project.normalizeDueDate(data.dueDate);
+    if ("description" in data) todo.description = data.description?.trim() || undefined;
+    if ("tags" in data) todo.tags = Project.normalizeElements(data.tags);
+    if ("checklist" in data) todo.checklist = Project.normalizeChecklist(data.checklist);
+    if ("weight" in data) todo.weight = Project.normalizeWeight(data.weight);
+    if ("milestone" in data) todo.milestone = data.milestone === true || undefined;
+    if ("startDate" in data || "endDate" in data) {
+      const span = Project.normalizeTodoSpan(
+        "startDate" in data ? data.startDate : todo.startDate,
+        "endDate" in data ? data.endDate : todo.endDate
+      );
+      todo.startDate = span.startDate;
+      todo.endDate = span.endDate;
+    }
+    if ("dependsOn" in data) todo.dependsOn = Project.normalizeDependencies(data.dependsOn, todo.id);
+    // Same values (e.g. the form saved without edits): no timestamp, no activity, no undo step
+    if (JSON.stringify(todo) === original) return todo;
     todo.updatedAt = new Date().toISOString();
+
+    const changes = Project.diffFields(before, Project.todoFields(todo));
+    if (changes.length) this.log("todo.updated", changes, { todoId: todo.id, label: todo.title });
+    this.changed();
     return todo;
   }
 
-  /** Deletes a ToDo by id */
-  deleteTodo(id: string) {
+  /**
+   * Board drag & drop: moves a ToDo into a status column, before `beforeId`
+   * (null = at the end), and renumbers that column.
+   */
+  moveTodo(id: string, status: TodoStatus, beforeId: string | null = null): ITodo | undefined {
+    const todo = this.todos.find((t) => t.id === id);
+    if (!todo) return;
+    if (todo.status !== status) this.updateTodo(id, { status });
+
+    const column = this.todos
+      .filter((t) => t.status === status && t.id !== id)
+      .sort(Project.compareRank);
+    const index = beforeId ? column.findIndex((t) => t.id === beforeId) : -1;
+    column.splice(index >= 0 ? index : column.length, 0, todo);
+    column.forEach((t, i) => (t.rank = i));
+    this.changed();
+    return todo;
+  }
+
+  /** Rank after the last ToDo of a status column */
+  private nextRank(status: TodoStatus): number {
+    const ranks = this.todos.filter((t) => t.status === status).map((t) => t.rank ?? -1);
+    return ranks.length ? Math.max(...ranks) + 1 : 0;
+  }
+
+  /** Replaces the ToDo with the same id (keeping its position) or appends it */
+  upsertTodo(data: Partial<ITodo>): ITodo {
+    const todo = Project.normalizeTodo(data);
+    const index = this.todos.findIndex((t) => t.id === todo.id);
+    if (index >= 0) {
+      this.todos[index] = todo;
+    } else {
+      this.todos.push(todo);
+    }
+    this.changed();
+    return todo;
+  }
+
+  /** Deletes a ToDo by id (`note` explains why, e.g. "moved to ...") */
+  deleteTodo(id: string, note: string | null = null) {
+    const todo = this.todos.find((t) => t.id === id);
+    if (!todo) return;
     this.todos = this.todos.filter((t) => t.id !== id);
+    // Nothing can wait for a deleted ToDo
+    for (const other of this.todos) {
+      if (other.dependsOn?.includes(id)) {
+        other.dependsOn = Project.normalizeDependencies(other.dependsOn, other.id, [id]);
+      }
+    }
+    this.log("todo.deleted", Project.diffFields(Project.todoFields(todo), {}), {
+      todoId: todo.id,
+      label: note ? `${todo.title} (${note})` : todo.title,
+    });
+    this.changed();
+  }
+
+  /** Adds a cost line item and logs the new actual spend */
+  addCostItem(data: Omit<ICostItem, "id">): ICostItem {
+    const before = this.cost;
+    const item = Project.normalizeCostItem(data);
+    this.costItems.push(item);
+    this.logCosts(before, `"${item.description}" added`);
+    return item;
+  }
+
+  updateCostItem(id: string, data: Partial<Omit<ICostItem, "id">>): ICostItem | undefined {
+    const index = this.costItems.findIndex((c) => c.id === id);
+    if (index < 0) return;
+    const before = this.cost;
+    const item = Project.normalizeCostItem({ ...this.costItems[index], ...data });
+    this.costItems[index] = item;
+    this.logCosts(before, `"${item.description}" edited`);
+    return item;
+  }
+
+  removeCostItem(id: string) {
+    const item = this.costItems.find((c) => c.id === id);
+    if (!item) return;
+    const before = this.cost;
+    this.costItems = this.costItems.filter((c) => c.id !== id);
+    this.logCosts(before, `"${item.description}" removed`);
+  }
+
+  private logCosts(before: number, label: string) {
+    this.log("project.costs", [{ field: "cost", before, after: this.cost }], { label });
+    this.changed();
+  }
+
+  /** Registers an attached IFC file (bytes must be stored separately under the returned id) */
+  addModel(name: string, size: number): IModelFile {
+    const model: IModelFile = {
+      id: uuidv4(),
+      name: name.trim(),
+      size,
+      addedAt: new Date().toISOString(),
+    };
+    this.models.push(model);
+    this.changed();
+    return model;
+  }
+
+  /** Detaches an IFC file by id */
+  removeModel(id: string) {
+    this.models = this.models.filter((m) => m.id !== id);
+    this.changed();
+  }
+
+  /** Replaces the assigned team members */
+  setMembers(userIds: string[]) {
+    this.memberIds = Project.normalizeElements(userIds) ?? [];
+    this.changed();
+  }
+
+  /** Unassigns a user from the project and from its ToDos */
+  removeMember(userId: string) {
+    this.memberIds = this.memberIds.filter((id) => id !== userId);
+    for (const todo of this.todos) {
+      if (todo.assigneeId === userId) todo.assigneeId = undefined;
+    }
+    this.changed();
+  }
+
+  get isTrashed(): boolean {
+    return this.deletedAt !== null;
+  }
+
+  /** Moves the project out of (or back into) the main list */
+  setArchived(archived: boolean) {
+    this.archived = archived;
+    this.log(archived ? "project.archived" : "project.unarchived");
+    this.changed();
+  }
+
+  /** Soft delete: the project stays in the trash until restored or purged */
+  trash() {
+    this.deletedAt = new Date().toISOString();
+    this.log("project.trashed");
+    this.changed();
+  }
+
+  restore() {
+    this.deletedAt = null;
+    this.log("project.restored");
+    this.changed();
+  }
+
+  /** Restores every field from a toJSON() snapshot (undo / redo) */
+  applySnapshot(data: IProject) {
+    this.name = (data.name ?? "").trim();
+    this.description = (data.description ?? "").trim();
+    this.status = data.status;
+    this.userRole = data.userRole;
+    this.finishDate = Project.normalizeDate(data.finishDate);
+    this.budget = typeof data.budget === "number" && data.budget > 0 ? data.budget : 0;
+    this.currency = Budget.normalizeCurrency(data.currency);
+    this.costItems = Project.normalizeCostItems(data);
+    this.manualProgress = typeof data.progress === "number" ? data.progress : 0;
+    this.progressMode = Project.normalizeProgressMode(data.progressMode);
+    if (data.iconBg) this.iconBg = data.iconBg;
+    if (typeof data.createdAt === "string") this.createdAt = data.createdAt;
+    this.startDate = Project.normalizeStartDate(data.startDate, this.createdAt, this.finishDate);
+    this.todos = (data.todos ?? []).map((t) => Project.normalizeTodo(t));
+    this.models = (data.models ?? []).map((m) => Project.normalizeModel(m));
+    this.memberIds = Project.normalizeElements(data.memberIds) ?? [];
+    this.archived = data.archived === true;
+    this.deletedAt = typeof data.deletedAt === "string" ? data.deletedAt : null;
+    if (typeof data.updatedAt === "string") this.updatedAt = data.updatedAt;
+    if (Array.isArray(data.activity)) this.activity = Project.normalizeActivity(data.activity);
+    this.changed();
   }
 
   /** Serialization for export (includes todos) */
@@ -155,83 +648,36 @@ export class Project {
       description: this.description,
       status: this.status,
       userRole: this.userRole,
+      startDate: this.startDate.toISOString(),
       finishDate: this.finishDate.toISOString(),
       cost: this.cost,
+      budget: this.budget,
+      currency: this.currency,
+      costItems: this.costItems.map((c) => ({ ...c })),
       progress: this.progress,
+      progressMode: this.progressMode,
       iconBg: this.iconBg,
-      todos: this.todos.map((t) => ({ ...t })),
+      todos: this.todos.map((t) => Project.normalizeTodo(t)),
+      models: this.models.map((m) => ({ ...m })),
+      memberIds: [...this.memberIds],
+      archived: this.archived,
+      ...(this.deletedAt ? { deletedAt: this.deletedAt } : {}),
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      activity: this.activity.map((a) => ({ ...a, changes: a.changes.map((c) => ({ ...c })) })),
     };
   }
 
-  // ---------- UI (Project Card) ----------
-
-  private createCardUI(): HTMLDivElement {
-    const card = document.createElement("div");
-    card.className = "project-card";
-
-    // Pass per-card random color via CSS variable
-    card.style.setProperty("--project-icon-bg", this.iconBg);
-
-    card.innerHTML = `
-      <div class="card-header">
-        <div class="project-icon" data-project-icon></div>
-        <div class="project-main">
-          <h5 data-project-name></h5>
-          <p data-project-description></p>
-        </div>
-      </div>
-
-      <div class="card-content">
-        <div class="card-property">
-          <p class="muted">Status</p>
-          <p data-project-status></p>
-        </div>
-        <div class="card-property">
-          <p class="muted">Role</p>
-          <p data-project-role></p>
-        </div>
-        <div class="card-property">
-          <p class="muted">Cost</p>
-          <p data-project-cost></p>
-        </div>
-        <div class="card-property">
-          <p class="muted">Estimated Progress</p>
-          <p data-project-progress></p>
-        </div>
-      </div>
-    `;
-    return card;
-  }
-
-  /** Refreshes card fields (call after update/import/etc.) */
-  syncCardUI() {
-    // keep bg stable if changed
-    this.ui.style.setProperty("--project-icon-bg", this.iconBg);
-
-    const icon = this.ui.querySelector("[data-project-icon]") as HTMLElement | null;
-    const name = this.ui.querySelector("[data-project-name]") as HTMLElement | null;
-    const desc = this.ui.querySelector("[data-project-description]") as HTMLElement | null;
-    const status = this.ui.querySelector("[data-project-status]") as HTMLElement | null;
-    const role = this.ui.querySelector("[data-project-role]") as HTMLElement | null;
-    const cost = this.ui.querySelector("[data-project-cost]") as HTMLElement | null;
-    const prog = this.ui.querySelector("[data-project-progress]") as HTMLElement | null;
-
-    // IMPORTANT: uppercase must be done by CSS rule (text-transform),
-    // so here we set raw initials without forcing uppercase in JS.
-    if (icon) icon.textContent = Project.getProjectInitials(this.name);
-
-    if (name) name.textContent = this.name;
-    if (desc) desc.textContent = this.description;
-
-    if (status) status.textContent = this.status;
-    if (role) role.textContent = this.userRole;
-
-    if (cost) cost.textContent = `$${this.cost}`;
-    if (prog) prog.textContent = `${Math.round(this.progress * 100)}%`;
-  }
-
   // ---------- Helpers ----------
 
+  /** "40%", "40% (ToDos)", "40% (milestones)" */
+  static formatProgress(project: Project): string {
+    const percent = `${Math.round(project.progress * 100)}%`;
+    if (project.progressMode === "todos") return `${percent} (ToDos)`;
+    if (project.progressMode === "milestones") return `${percent} (milestones)`;
+    return percent;
+  }
+
   /** Prefer first letter of first 2 words (Hospital Center => HC). If single word, take first 2 chars. */
   static getProjectInitials(projectName: string): string {
     const cleaned = (projectName ?? "").trim();
@@ -247,6 +693,34 @@ export class Project {
     return cleaned.substring(0, 2);
   }
 
+  /** Normalize strings coming from <select> options / spreadsheets */
+  static normalizeRole(value: unknown): UserRole {
+    const v = String(value ?? "").trim().toLowerCase();
+    if (v === "architect") return "architect";
+    if (v === "engineer") return "engineer";
+    if (v === "developer") return "developer";
+    return "architect";
+  }
+
+  static normalizeStatus(value: unknown): ProjectStatus {
+    const v = String(value ?? "").trim().toLowerCase();
+    if (v === "pending") return "pending";
+    if (v === "active") return "active";
+    if (v === "finished") return "finished";
+    if (v.includes("pend")) return "pending";
+    if (v.includes("acti")) return "active";
+    if (v.includes("fin")) return "finished";
+    return "pending";
+  }
+
+  static normalizeFinishDate(value: unknown): Date {
+    const raw = String(value ?? "").trim();
+    if (!raw) return new Date(); // default if not specified
+    const d = new Date(raw);
+    if (Number.isNaN(d.getTime())) return new Date();
+    return d;
+  }
+
   static normalizeDate(value: Date | string | null | undefined): Date {
     if (!value) return new Date(); // default date if not specified
     if (value instanceof Date && !Number.isNaN(value.getTime())) return value;
@@ -258,14 +732,279 @@ export class Project {
 
   static normalizeTodo(t: Partial<ITodo>): ITodo {
     const now = new Date().toISOString();
-    const status = (t.status as TodoStatus) ?? "pending";
-
-    return {
+    const todo: ITodo = {
       id: typeof t.id === "string" && t.id.trim() ? t.id : uuidv4(),
       title: typeof t.title === "string" ? t.title.trim() : "",
-      status,
+      status: Project.normalizeTodoStatus(t.status),
+      priority: Project.normalizePriority(t.priority),
       createdAt: typeof t.createdAt === "string" ? t.createdAt : now,
       updatedAt: typeof t.updatedAt === "string" ? t.updatedAt : now,
     };
+
+    // Optional links are only written when present (keeps old exports identical)
+    const elements = Project.normalizeElements(t.elements);
+    if (elements) todo.elements = elements;
+    const viewpoint = Project.normalizeViewpoint(t.viewpoint);
+    if (viewpoint) todo.viewpoint = viewpoint;
+    if (typeof t.assigneeId === "string" && t.assigneeId.trim()) {
+      todo.assigneeId = t.assigneeId.trim();
+    }
+    if (typeof t.rank === "number" && Number.isFinite(t.rank)) todo.rank = t.rank;
+
+    const dueDate = Project.normalizeDueDate(t.dueDate);
+    if (dueDate) todo.dueDate = dueDate;
+    if (typeof t.description === "string" && t.description.trim()) {
+      todo.description = t.description.trim();
+    }
+    const tags = Project.normalizeElements(t.tags);
+    if (tags) todo.tags = tags;
+    const checklist = Project.normalizeChecklist(t.checklist);
+    if (checklist) todo.checklist = checklist;
+    const weight = Project.normalizeWeight(t.weight);
+    if (weight !== undefined) todo.weight = weight;
+    if (t.milestone === true) todo.milestone = true;
+
+    const span = Project.normalizeTodoSpan(t.startDate, t.endDate);
+    if (span.startDate) todo.startDate = span.startDate;
+    if (span.endDate) todo.endDate = span.endDate;
+    const dependsOn = Project.normalizeDependencies(t.dependsOn, todo.id);
+    if (dependsOn) todo.dependsOn = dependsOn;
+
+    return todo;
+  }
+
+  /** Valid days only; an end before the start is moved to the start */
+  static normalizeTodoSpan(
+    start: unknown,
+    end: unknown
+  ): { startDate: string | undefined; endDate: string | undefined } {
+    const startDate = Project.normalizeDueDate(start);
+    let endDate = Project.normalizeDueDate(end);
+    if (startDate && endDate && endDate < startDate) endDate = startDate;
+    return { startDate, endDate };
+  }
+
+  /** Unique ToDo ids except the ToDo itself (and `removed`); undefined when empty */
+  static normalizeDependencies(
+    value: unknown,
+    todoId: string,
+    removed: string[] = []
+  ): string[] | undefined {
+    const ids = (Project.normalizeElements(value) ?? []).filter(
+      (id) => id !== todoId && !removed.includes(id)
+    );
+    return ids.length ? ids : undefined;
+  }
+
+  /** Explicit start date, else the creation day (never after the finish date) */
+  static normalizeStartDate(value: unknown, createdAt: string, finishDate: Date): Date {
+    if (value instanceof Date && !Number.isNaN(value.getTime())) return value;
+    if (typeof value === "string" && value.trim()) {
+      const parsed = new Date(value.trim());
+      if (!Number.isNaN(parsed.getTime())) return parsed;
+    }
+    const created = new Date(createdAt.slice(0, 10));
+    const fallback = Number.isNaN(created.getTime()) ? new Date() : created;
+    return fallback > finishDate ? new Date(finishDate.getTime()) : fallback;
+  }
+
+  /** Positive weight; undefined for the default (1) or invalid values */
+  static normalizeWeight(value: unknown): number | undefined {
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0 || value === 1) return;
+    return value;
+  }
+
+  static normalizeProgressMode(value: unknown): ProgressMode {
+    return value === "todos" || value === "milestones" ? value : "manual";
+  }
+
+  /**
+   * Done share of the (weighted) ToDos, or of the milestone ToDos only.
+   * 0 when there is nothing to count.
+   */
+  static computeProgress(todos: ITodo[], mode: ProgressMode, manual: number): number {
+    if (mode === "manual") return manual;
+
+    const counted = mode === "milestones" ? todos.filter((t) => t.milestone) : todos;
+    const weight = (t: ITodo) => t.weight ?? 1;
+    const total = counted.reduce((sum, t) => sum + weight(t), 0);
+    if (!total) return 0;
+    const done = counted.filter((t) => t.status === "done").reduce((sum, t) => sum + weight(t), 0);
+    return done / total;
+  }
+
+  /** Unknown statuses (old or hand-edited data) fall back to "pending" so the ToDo stays on the board */
+  static normalizeTodoStatus(value: unknown): TodoStatus {
+    return Project.TODO_STATUSES.includes(value as TodoStatus) ? (value as TodoStatus) : "pending";
+  }
+
+  static normalizePriority(value: unknown): TodoPriority {
+    return Project.TODO_PRIORITIES.includes(value as TodoPriority)
+      ? (value as TodoPriority)
+      : "medium";
+  }
+
+  /** Calendar day (YYYY-MM-DD); undefined when missing or not a date */
+  static normalizeDueDate(value: unknown): string | undefined {
+    if (typeof value !== "string" && !(value instanceof Date)) return;
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+      // Rejects days that roll over ("2024-02-30")
+      const day = value.trim();
+      const date = new Date(`${day}T00:00:00`);
+      return !Number.isNaN(date.getTime()) && Project.toDay(date) === day ? day : undefined;
+    }
+    const date = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(date.getTime())) return;
+    return Project.toDay(date);
+  }
+
+  /** Items with text only; undefined when the list is empty */
+  static normalizeChecklist(value: unknown): IChecklistItem[] | undefined {
+    if (!Array.isArray(value)) return;
+    const items = value
+      .filter((i): i is Partial<IChecklistItem> => !!i && typeof i === "object")
+      .filter((i) => typeof i.text === "string" && i.text.trim())
+      .map((i) => ({
+        id: typeof i.id === "string" && i.id.trim() ? i.id : uuidv4(),
+        text: String(i.text).trim(),
+        done: i.done === true,
+      }));
+    return items.length ? items : undefined;
+  }
+
+  /** Local calendar day of a date (YYYY-MM-DD) */
+  static toDay(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  /** Open ToDo whose due date is before today */
+  static isOverdue(todo: ITodo, today: Date = new Date()): boolean {
+    return !!todo.dueDate && todo.status !== "done" && todo.dueDate < Project.toDay(today);
+  }
+
+  /** Board order inside a column; unranked ToDos (old data) go last, in list order */
+  static compareRank(a: ITodo, b: ITodo): number {
+    return (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER);
+  }
+
+  /** Unique, non-empty ids (GlobalIds, user ids); undefined when the list is empty */
+  static normalizeElements(value: unknown): string[] | undefined {
+    if (!Array.isArray(value)) return;
+    const ids = value
+      .filter((v): v is string => typeof v === "string")
+      .map((v) => v.trim())
+      .filter(Boolean);
+    const unique = Array.from(new Set(ids));
+    return unique.length ? unique : undefined;
+  }
+
+  static normalizeViewpoint(value: unknown): IViewpoint | undefined {
+    if (!value || typeof value !== "object") return;
+    const v = value as Partial<IViewpoint>;
+    const isVector = (a: unknown): a is [number, number, number] =>
+      Array.isArray(a) && a.length === 3 && a.every((n) => typeof n === "number" && Number.isFinite(n));
+    if (!isVector(v.position) || !isVector(v.target)) return;
+    return { position: [...v.position], target: [...v.target] };
+  }
+
+  /** Values shown in the activity log for ToDo changes */
+  static todoFields(todo: ITodo): Record<string, string | number> {
+    const fields: Record<string, string | number> = {
+      title: todo.title,
+      status: todo.status,
+      priority: todo.priority,
+    };
+    if (todo.assigneeId) fields.assignee = todo.assigneeId;
+    if (todo.dueDate) fields.dueDate = todo.dueDate;
+    if (todo.description) {
+      fields.description =
+        todo.description.length > 60 ? `${todo.description.slice(0, 57)}...` : todo.description;
+    }
+    if (todo.tags?.length) fields.tags = todo.tags.join(", ");
+    if (todo.weight !== undefined) fields.weight = todo.weight;
+    if (todo.milestone) fields.milestone = "yes";
+    if (todo.startDate) fields.startDate = todo.startDate;
+    if (todo.endDate) fields.endDate = todo.endDate;
+    if (todo.dependsOn?.length) fields.dependsOn = todo.dependsOn.length;
+    if (todo.checklist?.length) {
+      const done = todo.checklist.filter((i) => i.done).length;
+      fields.checklist = `${done}/${todo.checklist.length}`;
+    }
+    if (todo.elements?.length) fields.elements = todo.elements.length;
+    if (todo.viewpoint) fields.viewpoint = "saved";
+    return fields;
+  }
+
+  /** Field-level changes between two value maps (missing = null) */
+  static diffFields(
+    before: Record<string, string | number>,
+    after: Record<string, string | number>
+  ): IFieldChange[] {
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return fields
+      .filter((field) => before[field] !== after[field])
+      .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+  }
+
+  /** Keeps well-formed entries only (imports, old storage) */
+  static normalizeActivity(value: unknown): IActivity[] {
+    if (!Array.isArray(value)) return [];
+    return value
+      .filter(
+        (a): a is IActivity =>
+          !!a &&
+          typeof a === "object" &&
+          typeof a.id === "string" &&
+          typeof a.at === "string" &&
+          typeof a.action === "string"
+      )
+      .map((a) => ({
+        ...a,
+        actor: Project.normalizeRole(a.actor),
+        changes: Array.isArray(a.changes) ? a.changes.map((c) => ({ ...c })) : [],
+      }));
+  }
+
+  /**
+   * Line items of a project. Old data only has a single `cost` number:
+   * it becomes one "Unitemized cost" item so the actual spend is kept.
+   */
+  static normalizeCostItems(data: Pick<IProject, "cost" | "costItems" | "createdAt">): ICostItem[] {
+    if (Array.isArray(data.costItems)) {
+      return data.costItems
+        .filter((c) => !!c && typeof c === "object" && typeof c.amount === "number")
+        .map((c) => Project.normalizeCostItem(c));
+    }
+    if (typeof data.cost === "number" && Number.isFinite(data.cost) && data.cost !== 0) {
+      return [
+        Project.normalizeCostItem({
+          description: "Unitemized cost",
+          category: "other",
+          date: data.createdAt,
+          amount: data.cost,
+        }),
+      ];
+    }
+    return [];
+  }
+
+  static normalizeCostItem(c: Partial<ICostItem>): ICostItem {
+    return {
+      id: typeof c.id === "string" && c.id.trim() ? c.id : uuidv4(),
+      description: typeof c.description === "string" ? c.description.trim() : "",
+      category: c.category && c.category in Budget.CATEGORY_LABELS ? c.category : "other",
+      date: Project.normalizeDueDate(c.date) ?? Project.toDay(new Date()),
+      amount: typeof c.amount === "number" && Number.isFinite(c.amount) ? c.amount : 0,
+    };
+  }
+
+  static normalizeModel(m: Partial<IModelFile>): IModelFile {
+    return {
+      id: typeof m.id === "string" && m.id.trim() ? m.id : uuidv4(),
+      name: typeof m.name === "string" ? m.name.trim() : "model.ifc",
+      size: typeof m.size === "number" ? m.size : 0,
+      addedAt: typeof m.addedAt === "string" ? m.addedAt : new Date().toISOString(),
+    };
   }
 }
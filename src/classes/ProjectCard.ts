@@ -0,0 +1,155 @@
+import { Budget, BudgetSummary } from "./Budget";
+import { Permissions } from "./Permissions";
+import { Project } from "./Project";
+
+/** Card of the projects list; re-renders on every change of its project */
+export class ProjectCard {
+  ui: HTMLDivElement;
+  project: Project;
+
+  private unsubscribe: () => void;
+
+  constructor(project: Project) {
+    this.project = project;
+    this.ui = this.createUI();
+    this.sync();
+    this.unsubscribe = project.onChange(() => this.sync());
+  }
+
+  /** Stops following the project and takes the card out of the page */
+  remove() {
+    this.unsubscribe();
+    this.ui.remove();
+  }
+
+  private createUI(): HTMLDivElement {
+    const card = document.createElement("div");
+    card.className = "project-card";
+
+    // Pass per-card random color via CSS variable
+    card.style.setProperty("--project-icon-bg", this.project.iconBg);
+
+    card.innerHTML = `
+      <div class="card-header">
+        <div class="project-icon" data-project-icon></div>
+        <div class="project-main">
+          <h5 data-project-name></h5>
+          <p data-project-description></p>
+        </div>
+        <div class="card-actions">
+          <span class="material-icons-round action-icon" data-card-action="archive" title="Archive">archive</span>
+          <span class="material-icons-round action-icon" data-card-action="unarchive" title="Unarchive">unarchive</span>
+          <span class="material-icons-round action-icon" data-card-action="delete" title="Move to trash">delete</span>
+          <span class="material-icons-round action-icon" data-card-action="restore" title="Restore">restore_from_trash</span>
+          <span class="material-icons-round action-icon" data-card-action="purge" title="Delete permanently">delete_forever</span>
+        </div>
+      </div>
+
+      <div class="card-content">
+        <div class="card-property">
+          <p class="muted">Status</p>
+          <p data-project-status></p>
+        </div>
+        <div class="card-property">
+          <p class="muted">Role</p>
+          <p data-project-role></p>
+        </div>
+        <div class="card-property">
+          <p class="muted">Cost</p>
+          <p data-project-cost></p>
+        </div>
+        <div class="card-property">
+          <p class="muted">Estimated Progress</p>
+          <p data-project-progress></p>
+        </div>
+        <div class="card-property">
+          <p class="muted">ToDos</p>
+          <p data-project-todos></p>
+        </div>
+      </div>
+
+      <div class="spend-bar" data-project-spend hidden>
+        <div class="spend-bar-fill"></div>
+      </div>
+      <p class="budget-warning" data-project-budget-warning hidden></p>
+    `;
+    return card;
+  }
+
+  /** Refreshes card fields from the project */
+  sync() {
+    const project = this.project;
+
+    // keep bg stable if changed
+    this.ui.style.setProperty("--project-icon-bg", project.iconBg);
+
+    const icon = this.ui.querySelector("[data-project-icon]") as HTMLElement | null;
+    const name = this.ui.querySelector("[data-project-name]") as HTMLElement | null;
+    const desc = this.ui.querySelector("[data-project-description]") as HTMLElement | null;
+    const status = this.ui.querySelector("[data-project-status]") as HTMLElement | null;
+    const role = this.ui.querySelector("[data-project-role]") as HTMLElement | null;
+    const cost = this.ui.querySelector("[data-project-cost]") as HTMLElement | null;
+    const prog = this.ui.querySelector("[data-project-progress]") as HTMLElement | null;
+    const todos = this.ui.querySelector("[data-project-todos]") as HTMLElement | null;
+
+    // IMPORTANT: uppercase must be done by CSS rule (text-transform),
+    // so here we set raw initials without forcing uppercase in JS.
+    if (icon) icon.textContent = Project.getProjectInitials(project.name);
+
+    if (name) name.textContent = project.name;
+    if (desc) desc.textContent = project.description;
+
+    if (status) status.textContent = project.status;
+    if (role) role.textContent = project.userRole;
+
+    if (cost) cost.textContent = Budget.format(project.cost, project.currency);
+    const summary = Budget.summarize(project.budget, project.costItems);
+    ProjectCard.renderSpend(this.ui, summary, project.currency);
+    this.ui.classList.toggle("project-card-over-budget", summary.state === "over");
+    if (prog) prog.textContent = Project.formatProgress(project);
+    if (todos) {
+      const done = project.todos.filter((t) => t.status === "done").length;
+      todos.textContent = `${done} / ${project.todos.length} done`;
+    }
+
+    // Card actions depend on the lifecycle state and on what the role may do
+    const canArchive = Permissions.can(project.userRole, "project:archive");
+    const canDelete = Permissions.can(project.userRole, "project:delete");
+    const visible: Record<string, boolean> = {
+      archive: canArchive && !project.isTrashed && !project.archived,
+      unarchive: canArchive && !project.isTrashed && project.archived,
+      delete: canDelete && !project.isTrashed,
+      restore: canDelete && project.isTrashed,
+      purge: canDelete && project.isTrashed,
+    };
+    this.ui.querySelectorAll<HTMLElement>("[data-card-action]").forEach((el) => {
+      el.hidden = !visible[el.dataset.cardAction ?? ""];
+    });
+    this.ui.classList.toggle("project-card-archived", project.archived);
+    this.ui.classList.toggle("project-card-trashed", project.isTrashed);
+  }
+
+  /**
+   * Fills a spend bar ([data-project-spend]) and over-budget warning
+   * ([data-project-budget-warning]) inside `root` (card or details page).
+   */
+  static renderSpend(root: HTMLElement, summary: BudgetSummary, currency: string) {
+    const bar = root.querySelector("[data-project-spend]") as HTMLElement | null;
+    const fill = bar?.querySelector(".spend-bar-fill") as HTMLElement | null;
+    const warning = root.querySelector("[data-project-budget-warning]") as HTMLElement | null;
+
+    if (bar && fill) {
+      bar.hidden = summary.state === "none";
+      bar.dataset.state = summary.state;
+      bar.title = `${Budget.format(summary.actual, currency)} of ${Budget.format(summary.budget, currency)}`;
+      fill.style.width = `${Math.min(100, Math.max(0, summary.ratio * 100))}%`;
+    }
+    if (warning) {
+      warning.hidden = summary.state !== "over";
+      warning.textContent =
+        summary.state === "over"
+          ? `Over budget by ${Budget.format(-summary.variance, currency)}`
+          : "";
+    }
+  }
+}
@@ -0,0 +1,349 @@
+import { CostCategory, ICostItem, Project } from "./Project";
+import { Budget } from "./Budget";
+import { Permission, Permissions } from "./Permissions";
+import { ProjectCard } from "./ProjectCard";
+
+export type DetailsEls = {
+  root: HTMLElement;
+  // Project text nodes
+  nameTitle: HTMLElement | null; // [data-project-info="name"]
+  descriptionText: HTMLElement | null; // [data-project-info="description"] (si existe)
+  // Optional fields in details (si existen los data-attrs)
+  statusText: HTMLElement | null; // [data-project-info="status"]
+  roleText: HTMLElement | null; // [data-project-info="role"]
+  costText: HTMLElement | null; // [data-project-info="cost"]
+  startDateText: HTMLElement | null; // [data-project-info="startDate"]
+  finishDateText: HTMLElement | null; // [data-project-info="finishDate"]
+  progressText: HTMLElement | null; // [data-project-info="progress"]
+
+  // Lifecycle actions
+  archiveBtn: HTMLElement | null; // button#archive-project-btn
+  deleteBtn: HTMLElement | null; // button#delete-project-btn
+
+  // Edit UI
+  editBtn: HTMLElement | null; // button#edit-project-btn (lo añadiremos si no existe)
+  editModal: HTMLDialogElement | null; // dialog#edit-project-modal (lo añadiremos si no existe)
+  editForm: HTMLFormElement | null; // form#edit-project-form (lo añadiremos si no existe)
+
+  // Todos UI
+  todosContainer: HTMLElement | null; // #todos-list (lo añadiremos si no existe)
+  todosBoard: HTMLElement | null; // #todos-board (one column per status)
+  addTodoBtn: HTMLElement | null; // #add-todo-btn (ya tienes un icon add en ToDo header; lo hookearemos)
+  todoModal: HTMLDialogElement | null; // dialog#todo-modal (lo añadiremos)
+  todoForm: HTMLFormElement | null; // form#todo-form (lo añadiremos)
+
+  // IFC viewer UI
+  viewerCanvas: HTMLElement | null; // #viewer-canvas
+  viewerTree: HTMLElement | null; // #viewer-tree
+  viewerProperties: HTMLElement | null; // #viewer-properties
+  viewerModels: HTMLElement | null; // #viewer-models (attached files chips)
+  attachModelBtn: HTMLElement | null; // #attach-ifc-btn
+
+  // BCF exchange
+  importBcfBtn: HTMLElement | null; // #import-bcf-btn
+  exportBcfBtn: HTMLElement | null; // #export-bcf-btn
+  bcfModal: HTMLDialogElement | null; // dialog#bcf-export-modal
+  bcfForm: HTMLFormElement | null; // form#bcf-export-form
+
+  // iCalendar export of the project deadlines
+  exportIcsBtn: HTMLElement | null; // #export-ics-btn
+
+  // Activity timeline
+  activityList: HTMLElement | null; // #activity-list
+
+  // Team members
+  membersContainer: HTMLElement | null; // #project-members
+  assignMembersBtn: HTMLElement | null; // #assign-members-btn
+  membersModal: HTMLDialogElement | null; // dialog#members-modal
+  membersForm: HTMLFormElement | null; // form#members-form
+
+  // Budget / cost line items
+  budgetCard: HTMLElement | null; // #budget-card
+  costItemsList: HTMLElement | null; // #cost-items-list
+  addCostItemBtn: HTMLElement | null; // #add-cost-item-btn
+  costItemModal: HTMLDialogElement | null; // dialog#cost-item-modal
+  costItemForm: HTMLFormElement | null; // form#cost-item-form
+};
+
+/**
+ * Header, permitted actions and budget of the details page. Follows the shown
+ * project: any change of it (edits, undo, imports...) re-renders the view.
+ * ToDos, team, activity and models are still rendered by ProjectsManager.
+ */
+export class ProjectDetailsView {
+  project: Project | null = null;
+
+  // Cost item row actions (the modal + removal live in ProjectsManager)
+  onEditCostItem: ((item: ICostItem) => void) | null = null;
+  onRemoveCostItem: ((item: ICostItem) => void) | null = null;
+
+  private unsubscribe: (() => void) | null = null;
+
+  /** Starts following `project` (null = nothing shown) */
+  show(project: Project | null) {
+    if (project === this.project) return;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.project = project;
+    if (!project) return;
+
+    this.unsubscribe = project.onChange(() => this.render());
+    this.render();
+  }
+
+  render() {
+    const project = this.project;
+    const els = ProjectDetailsView.elements();
+    if (!project || !els) return;
+
+    this.renderPermissions(project, els);
+    this.renderInfo(project, els);
+    this.renderBudget(project, els);
+  }
+
+  /** Hides / disables the actions the project's role can't perform */
+  private renderPermissions(project: Project, els: DetailsEls) {
+    const can = (permission: Permission) => Permissions.can(project.userRole, permission);
+
+    const canEdit = can("project:edit") || can("project:editSchedule") || can("project:editRole");
+    if (els.editBtn) els.editBtn.hidden = !canEdit;
+    if (els.archiveBtn) els.archiveBtn.hidden = !can("project:archive");
+    if (els.deleteBtn) els.deleteBtn.hidden = !can("project:delete");
+    if (els.addTodoBtn) els.addTodoBtn.hidden = !can("todo:create");
+    if (els.importBcfBtn) {
+      els.importBcfBtn.hidden = !(can("todo:create") && can("todo:edit"));
+    }
+    if (els.attachModelBtn) els.attachModelBtn.hidden = !can("model:manage");
+    if (els.assignMembersBtn) els.assignMembersBtn.hidden = !can("project:members");
+    if (els.addCostItemBtn) els.addCostItemBtn.hidden = !can("project:editSchedule");
+
+    // Edit form fields the role can't change
+    if (els.editForm) {
+      const disable = (name: string, permission: Permission) => {
+        const field = els.editForm!.querySelector(`[name='${name}']`) as
+          | HTMLInputElement
+          | HTMLTextAreaElement
+          | HTMLSelectElement
+          | null;
+        if (field) field.disabled = !can(permission);
+      };
+      disable("name", "project:edit");
+      disable("description", "project:edit");
+      disable("status", "project:edit");
+      disable("startDate", "project:editSchedule");
+      disable("finishDate", "project:editSchedule");
+      disable("budget", "project:editSchedule");
+      disable("currency", "project:editSchedule");
+      disable("progressMode", "project:editSchedule");
+      disable("progress", "project:editSchedule");
+      disable("userRole", "project:editRole");
+    }
+  }
+
+  private renderInfo(project: Project, els: DetailsEls) {
+    if (els.archiveBtn) {
+      els.archiveBtn.innerHTML = project.archived
+        ? `<span class="material-icons-round">unarchive</span>Unarchive`
+        : `<span class="material-icons-round">archive</span>Archive`;
+    }
+
+    // Generic fields
+    if (els.nameTitle) els.nameTitle.textContent = project.name;
+    if (els.descriptionText) els.descriptionText.textContent = project.description;
+
+    // Optional nodes if you add them later
+    if (els.statusText) els.statusText.textContent = project.status;
+    if (els.roleText) els.roleText.textContent = project.userRole;
+    if (els.costText) {
+      const money = (amount: number) => Budget.format(amount, project.currency);
+      els.costText.textContent = project.budget
+        ? `${money(project.cost)} of ${money(project.budget)}`
+        : money(project.cost);
+    }
+    if (els.startDateText) {
+      els.startDateText.textContent = project.startDate.toISOString().slice(0, 10);
+    }
+    if (els.finishDateText)
+      els.finishDateText.textContent = project.finishDate
+        ? project.finishDate.toISOString().slice(0, 10)
+        : "";
+    if (els.progressText) els.progressText.textContent = Project.formatProgress(project);
+  }
+
+  /** Budget vs. actual figures, spend bar, category totals and line items */
+  private renderBudget(project: Project, els: DetailsEls) {
+    const budgetCard = els.budgetCard;
+    if (!budgetCard) return;
+
+    const summary = Budget.summarize(project.budget, project.costItems);
+    const money = (amount: number) => Budget.format(amount, project.currency);
+    const figure = (key: string, text: string) => {
+      const el = budgetCard.querySelector(`[data-budget='${key}']`) as HTMLElement | null;
+      if (el) el.textContent = text;
+    };
+    figure("budget", project.budget ? money(project.budget) : "Not set");
+    figure("actual", money(summary.actual));
+    figure("variance", project.budget ? money(summary.variance) : "-");
+    const categories = Object.entries(Budget.byCategory(project.costItems)).map(
+      ([category, total]) => `${Budget.CATEGORY_LABELS[category as CostCategory]} ${money(total ?? 0)}`
+    );
+    figure("categories", categories.join(" · "));
+    ProjectCard.renderSpend(budgetCard, summary, project.currency);
+
+    if (!els.costItemsList) return;
+    els.costItemsList.innerHTML = "";
+    if (!project.costItems.length) {
+      const empty = document.createElement("div");
+      empty.className = "todo-empty";
+      empty.textContent = "No costs recorded yet.";
+      els.costItemsList.append(empty);
+      return;
+    }
+
+    const canEdit = Permissions.can(project.userRole, "project:editSchedule");
+    const items = [...project.costItems].sort((a, b) => b.date.localeCompare(a.date));
+    for (const item of items) {
+      const row = document.createElement("div");
+      row.className = "cost-item";
+      row.innerHTML = `
+        <span class="muted"></span>
+        <div>
+          <p class="cost-item-description"></p>
+          <p class="muted"></p>
+        </div>
+        <span class="cost-item-amount"></span>
+        <div class="cost-item-actions">
+          <span class="material-icons-round action-icon" data-cost-edit title="Edit">edit</span>
+          <span class="material-icons-round action-icon" data-cost-delete title="Remove">delete</span>
+        </div>
+      `;
+      const [date, category] = Array.from(row.querySelectorAll(".muted")) as HTMLElement[];
+      date.textContent = item.date;
+      category.textContent = Budget.CATEGORY_LABELS[item.category];
+      (row.querySelector(".cost-item-description") as HTMLElement).textContent = item.description;
+      (row.querySelector(".cost-item-amount") as HTMLElement).textContent = money(item.amount);
+
+      const actions = row.querySelector(".cost-item-actions") as HTMLElement;
+      actions.hidden = !canEdit;
+      row.querySelector("[data-cost-edit]")?.addEventListener("click", () => this.onEditCostItem?.(item));
+      row.querySelector("[data-cost-delete]")?.addEventListener("click", () => {
+        if (!confirm(`Remove cost "${item.description}"?`)) return;
+        try {
+          this.onRemoveCostItem?.(item);
+        } catch (err) {
+          alert(String(err));
+        }
+      });
+
+      els.costItemsList.append(row);
+    }
+  }
+
+  // ----------------- DOM helpers -----------------
+
+  /** Every element of the details page (null when the page is missing) */
+  static elements(): DetailsEls | null {
+    const root = document.getElementById("project-details");
+    if (!root) return null;
+
+    const nameTitle = root.querySelector("[data-project-info='name']") as HTMLElement | null;
+    const descriptionText = root.querySelector(
+      "[data-project-info='description']"
+    ) as HTMLElement | null;
+
+    const statusText = root.querySelector(
+      "[data-project-info='status']"
+    ) as HTMLElement | null;
+    const roleText = root.querySelector("[data-project-info='role']") as HTMLElement | null;
+    const costText = root.querySelector("[data-project-info='cost']") as HTMLElement | null;
+    const startDateText = root.querySelector(
+      "[data-project-info='startDate']"
+    ) as HTMLElement | null;
+    const finishDateText = root.querySelector(
+      "[data-project-info='finishDate']"
+    ) as HTMLElement | null;
+    const progressText = root.querySelector(
+      "[data-project-info='progress']"
+    ) as HTMLElement | null;
+
+    const archiveBtn = document.getElementById("archive-project-btn") as HTMLElement | null;
+    const deleteBtn = document.getElementById("delete-project-btn") as HTMLElement | null;
+    const editBtn = document.getElementById("edit-project-btn") as HTMLElement | null;
+    const editModal = document.getElementById("edit-project-modal") as HTMLDialogElement | null;
+    const editForm = document.getElementById("edit-project-form") as HTMLFormElement | null;
+
+    const todosContainer = document.getElementById("todos-list") as HTMLElement | null;
+    const todosBoard = document.getElementById("todos-board") as HTMLElement | null;
+    const addTodoBtn = document.getElementById("add-todo-btn") as HTMLElement | null;
+
+    const todoModal = document.getElementById("todo-modal") as HTMLDialogElement | null;
+    const todoForm = document.getElementById("todo-form") as HTMLFormElement | null;
+
+    const viewerCanvas = document.getElementById("viewer-canvas") as HTMLElement | null;
+    const viewerTree = document.getElementById("viewer-tree") as HTMLElement | null;
+    const viewerProperties = document.getElementById("viewer-properties") as HTMLElement | null;
+    const viewerModels = document.getElementById("viewer-models") as HTMLElement | null;
+    const attachModelBtn = document.getElementById("attach-ifc-btn") as HTMLElement | null;
+
+    const importBcfBtn = document.getElementById("import-bcf-btn") as HTMLElement | null;
+    const exportBcfBtn = document.getElementById("export-bcf-btn") as HTMLElement | null;
+    const bcfModal = document.getElementById("bcf-export-modal") as HTMLDialogElement | null;
+    const bcfForm = document.getElementById("bcf-export-form") as HTMLFormElement | null;
+    const exportIcsBtn = document.getElementById("export-ics-btn") as HTMLElement | null;
+
+    const activityList = document.getElementById("activity-list") as HTMLElement | null;
+
+    const membersContainer = document.getElementById("project-members") as HTMLElement | null;
+    const assignMembersBtn = document.getElementById("assign-members-btn") as HTMLElement | null;
+    const membersModal = document.getElementById("members-modal") as HTMLDialogElement | null;
+    const membersForm = document.getElementById("members-form") as HTMLFormElement | null;
+
+    const budgetCard = document.getElementById("budget-card") as HTMLElement | null;
+    const costItemsList = document.getElementById("cost-items-list") as HTMLElement | null;
+    const addCostItemBtn = document.getElementById("add-cost-item-btn") as HTMLElement | null;
+    const costItemModal = document.getElementById("cost-item-modal") as HTMLDialogElement | null;
+    const costItemForm = document.getElementById("cost-item-form") as HTMLFormElement | null;
+
+    return {
+      root,
+      nameTitle,
+      descriptionText,
+      statusText,
+      roleText,
+      costText,
+      startDateText,
+      finishDateText,
+      progressText,
+      archiveBtn,
+      deleteBtn,
+      editBtn,
+      editModal,
+      editForm,
+      todosContainer,
+      todosBoard,
+      addTodoBtn,
+      todoModal,
+      todoForm,
+      viewerCanvas,
+      viewerTree,
+      viewerProperties,
+      viewerModels,
+      attachModelBtn,
+      importBcfBtn,
+      exportBcfBtn,
+      bcfModal,
+      bcfForm,
+      exportIcsBtn,
+      activityList,
+      membersContainer,
+      assignMembersBtn,
+      membersModal,
+      membersForm,
+      budgetCard,
+      costItemsList,
+      addCostItemBtn,
+      costItemModal,
+      costItemForm,
+    };
+  }
+}
@@ -0,0 +1,189 @@
+import { Project, ProjectStatus, UserRole } from "./Project";
+
+export type ProjectSort =
+  | "created-asc"
+  | "created-desc"
+  | "name"
+  | "finish-asc"
+  | "finish-desc"
+  | "cost-desc"
+  | "cost-asc"
+  | "progress-desc"
+  | "progress-asc";
+
+export type ProjectGroup = "none" | "status";
+
+/** Search / filter / sort / grouping of the projects list (mirrored in the URL) */
+export interface ProjectQuery {
+  text: string; // name or description
+  status: ProjectStatus | "all";
+  role: UserRole | "all";
+  finishFrom: string; // YYYY-MM-DD, "" = open
+  finishTo: string;
+  costMin: number | null; // actual cost
+  costMax: number | null;
+  sort: ProjectSort;
+  group: ProjectGroup;
+}
+
+/** One section of the (possibly grouped) list */
+export interface ProjectGroupSection {
+  key: string;
+  label: string | null; // null = no grouping, no header
+  projects: Project[];
+}
+
+/** Pure list operations behind the projects toolbar (no DOM) */
+export class ProjectFilter {
+  static readonly STATUSES: ProjectStatus[] = ["pending", "active", "finished"];
+
+  static readonly STATUS_LABELS: Record<ProjectStatus, string> = {
+    pending: "Pending",
+    active: "Active",
+    finished: "Finished",
+  };
+
+  static readonly SORTS: ProjectSort[] = [
+    "created-asc",
+    "created-desc",
+    "name",
+    "finish-asc",
+    "finish-desc",
+    "cost-desc",
+    "cost-asc",
+    "progress-desc",
+    "progress-asc",
+  ];
+
+  static defaultQuery(): ProjectQuery {
+    return {
+      text: "",
+      status: "all",
+      role: "all",
+      finishFrom: "",
+      finishTo: "",
+      costMin: null,
+      costMax: null,
+      sort: "created-asc",
+      group: "none",
+    };
+  }
+
+  /** Filtered + sorted copy (the manager's list keeps creation order) */
+  static apply(projects: Project[], query: ProjectQuery): Project[] {
+    const text = query.text.trim().toLowerCase();
+    const result = projects.filter((p) => {
+      if (
+        text &&
+        !p.name.toLowerCase().includes(text) &&
+        !p.description.toLowerCase().includes(text)
+      ) {
+        return false;
+      }
+      if (query.status !== "all" && p.status !== query.status) return false;
+      if (query.role !== "all" && p.userRole !== query.role) return false;
+
+      const finish = ProjectFilter.finishDay(p);
+      if (query.finishFrom && finish < query.finishFrom) return false;
+      if (query.finishTo && finish > query.finishTo) return false;
+      if (query.costMin !== null && p.cost < query.costMin) return false;
+      if (query.costMax !== null && p.cost > query.costMax) return false;
+      return true;
+    });
+
+    const time = (iso: string) => new Date(iso).getTime() || 0;
+    const finish = (p: Project) => p.finishDate.getTime() || 0;
+    switch (query.sort) {
+      case "created-desc":
+        return result.sort((a, b) => time(b.createdAt) - time(a.createdAt));
+      case "name":
+        return result.sort((a, b) => a.name.localeCompare(b.name));
+      case "finish-asc":
+        return result.sort((a, b) => finish(a) - finish(b));
+      case "finish-desc":
+        return result.sort((a, b) => finish(b) - finish(a));
+      case "cost-desc":
+        return result.sort((a, b) => b.cost - a.cost);
+      case "cost-asc":
+        return result.sort((a, b) => a.cost - b.cost);
+      case "progress-desc":
+        return result.sort((a, b) => b.progress - a.progress);
+      case "progress-asc":
+        return result.sort((a, b) => a.progress - b.progress);
+      default:
+        return result.sort((a, b) => time(a.createdAt) - time(b.createdAt));
+    }
+  }
+
+  /** Sections in display order; empty status groups are left out */
+  static groups(projects: Project[], group: ProjectGroup): ProjectGroupSection[] {
+    if (group !== "status") return [{ key: "all", label: null, projects }];
+    return ProjectFilter.STATUSES.map((status) => ({
+      key: status,
+      label: ProjectFilter.STATUS_LABELS[status],
+      projects: projects.filter((p) => p.status === status),
+    })).filter((section) => section.projects.length > 0);
+  }
+
+  /** Non-default values only ("?q=tower&status=active&sort=cost-desc") */
+  static toSearchParams(query: ProjectQuery): URLSearchParams {
+    const params = new URLSearchParams();
+    const defaults = ProjectFilter.defaultQuery();
+    if (query.text.trim()) params.set("q", query.text.trim());
+    if (query.status !== defaults.status) params.set("status", query.status);
+    if (query.role !== defaults.role) params.set("role", query.role);
+    if (query.finishFrom) params.set("from", query.finishFrom);
+    if (query.finishTo) params.set("to", query.finishTo);
+    if (query.costMin !== null) params.set("costMin", String(query.costMin));
+    if (query.costMax !== null) params.set("costMax", String(query.costMax));
+    if (query.sort !== defaults.sort) params.set("sort", query.sort);
+    if (query.group !== defaults.group) params.set("group", query.group);
+    return params;
+  }
+
+  /** Inverse of toSearchParams; unknown / invalid values fall back to the defaults */
+  static fromSearchParams(params: URLSearchParams): ProjectQuery {
+    const query = ProjectFilter.defaultQuery();
+    const day = (value: string | null) =>
+      value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : "";
+    const amount = (value: string | null) => {
+      if (value === null || value.trim() === "") return null;
+      const n = Number(value);
+      return Number.isFinite(n) ? n : null;
+    };
+
+    query.text = params.get("q") ?? "";
+    const status = params.get("status");
+    if (ProjectFilter.STATUSES.includes(status as ProjectStatus)) {
+      query.status = status as ProjectStatus;
+    }
+    const role = params.get("role");
+    if (role === "architect" || role === "engineer" || role === "developer") query.role = role;
+    query.finishFrom = day(params.get("from"));
+    query.finishTo = day(params.get("to"));
+    query.costMin = amount(params.get("costMin"));
+    query.costMax = amount(params.get("costMax"));
+    const sort = params.get("sort");
+    if (ProjectFilter.SORTS.includes(sort as ProjectSort)) query.sort = sort as ProjectSort;
+    if (params.get("group") === "status") query.group = "status";
+    return query;
+  }
+
+  /** Any filter narrowing the list (sort / grouping don't count) */
+  static isFiltered(query: ProjectQuery): boolean {
+    return (
+      !!query.text.trim() ||
+      query.status !== "all" ||
+      query.role !== "all" ||
+      !!query.finishFrom ||
+      !!query.finishTo ||
+      query.costMin !== null ||
+      query.costMax !== null
+    );
+  }
+
+  /** Same YYYY-MM-DD the details page shows (finish dates are stored as UTC midnight) */
+  static finishDay(project: Project): string {
+    return project.finishDate.toISOString().slice(0, 10);
+  }
+}
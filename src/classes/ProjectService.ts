@@ -0,0 +1,640 @@
+import { ICostItem, IProject, ITodo, Project, TodoData, TodoStatus } from "./Project";
+import { IUser, User } from "./User";
+import { Permission, Permissions } from "./Permissions";
+import { CommandHistory } from "./CommandHistory";
+import { EventBus } from "./EventBus";
+import { ProjectStore } from "./ProjectStore";
+import { ImportPlan, IProjectsExport, ProjectsImport, TodoMergeMode } from "./ProjectsImport";
+import { BcfTopic } from "./BcfArchive";
+import { TodoFilter } from "./TodoFilter";
+import { DaySpan } from "./Schedule";
+
+/**
+ * Changes published by ProjectService (undo / redo included). The views,
+ * the storage and any integration (audit log, notifications...) follow them.
+ */
+export type ProjectEvents = {
+  projectCreated: { project: Project };
+  // Fields, lifecycle (archive / restore), costs, team or models
+  projectUpdated: { project: Project };
+  // Moved to the trash, or gone for good (purged / creation undone)
+  projectDeleted: { project: Project; permanent: boolean };
+  // ToDos added, edited, moved or removed
+  todoChanged: { project: Project; todoIds: string[] };
+  imported: { created: Project[]; updated: Project[] };
+};
+
+/** The team directory as seen by the service (UsersManager in the app) */
+export interface ProjectUsers {
+  list: User[];
+  getUser(id: string): User | undefined;
+  upsertUser(data: IUser): User;
+  snapshot(): IUser[];
+  restoreSnapshot(users: IUser[]): void;
+}
+
+/**
+ * Project and ToDo operations without DOM: permission checks, undo / redo
+ * steps and the published events. ProjectsManager wires them to the page.
+ */
+export class ProjectService {
+  store: ProjectStore = new ProjectStore();
+
+  // subscribe("todoChanged", ...) etc.; returns the unsubscribe function
+  events: EventBus<ProjectEvents> = new EventBus();
+
+  // Undo / redo of project + ToDo mutations
+  history: CommandHistory = new CommandHistory();
+  private recording = false;
+
+  // Members / assignees are checked against it; imports and their undo touch it too
+  users: ProjectUsers | null;
+
+  constructor(users: ProjectUsers | null = null) {
+    this.users = users;
+  }
+
+  get list(): Project[] {
+    return this.store.list;
+  }
+
+  /** Project by id; throws when it doesn't exist */
+  private require(id: string): Project {
+    const project = this.store.get(id);
+    if (!project) {
+      throw new Error("The project does not exist.");
+    }
+    return project;
+  }
+
+  // ----------------- Permissions -----------------
+
+  /** Permissions are checked against the project's role (the current user's role in it) */
+  can(project: Project, permission: Permission): boolean {
+    return Permissions.can(project.userRole, permission);
+  }
+
+  assertCan(project: Project, permission: Permission) {
+    Permissions.assert(project.userRole, permission);
+  }
+
+  /** Only fields whose value actually changes require a permission */
+  static updatePermissions(project: Project, data: Partial<IProject>): Permission[] {
+    const changed = (before: unknown, after: unknown) =>
+      after !== undefined && String(before) !== String(after);
+    const day = (value: Date | string | null | undefined) =>
+      Project.normalizeDate(value).toISOString().slice(0, 10);
+
+    const permissions: Permission[] = [];
+    if (
+      changed(project.name, data.name?.trim()) ||
+      changed(project.description, data.description?.trim()) ||
+      changed(project.status, data.status)
+    ) {
+      permissions.push("project:edit");
+    }
+    if (
+      changed(project.budget, data.budget) ||
+      changed(project.currency, data.currency) ||
+      ("startDate" in data && day(project.startDate) !== day(data.startDate)) ||
+      ("finishDate" in data && day(project.finishDate) !== day(data.finishDate)) ||
+      changed(project.manualProgress, data.progress) ||
+      changed(project.progressMode, data.progressMode)
+    ) {
+      permissions.push("project:editSchedule");
+    }
+    if (changed(project.userRole, data.userRole)) {
+      permissions.push("project:editRole");
+    }
+    return permissions;
+  }
+
+  /** Everything an import entry would change on `project`: its fields, cost items, team and archive flag */
+  static importPermissions(project: Project, incoming: IProject): Permission[] {
+    const permissions = new Set<Permission>([
+      "project:import",
+      ...ProjectService.updatePermissions(project, ProjectStore.importedFields(project, incoming)),
+    ]);
+    // Ids are generated for items without one, so only the content is compared
+    const costs = (items: ICostItem[]) =>
+      JSON.stringify(items.map((c) => [c.description, c.category, c.date, c.amount]));
+    if (
+      Array.isArray(incoming.costItems) &&
+      costs(project.costItems) !== costs(Project.normalizeCostItems(incoming))
+    ) {
+      permissions.add("project:editSchedule");
+    }
+    const members = (ids: string[]) => JSON.stringify([...new Set(ids)].sort());
+    if (
+      Array.isArray(incoming.memberIds) &&
+      members(project.memberIds) !== members(incoming.memberIds)
+    ) {
+      permissions.add("project:members");
+    }
+    if (typeof incoming.archived === "boolean" && incoming.archived !== project.archived) {
+      permissions.add("project:archive");
+    }
+    return [...permissions];
+  }
+
+  // ----------------- Projects -----------------
+
+  newProject(data: IProject): Project {
+    const name = (data.name ?? "").trim();
+    return this.record(`Create project "${name}"`, [], () => {
+      const project = this.store.create(data);
+      this.events.emit("projectCreated", { project });
+      return project;
+    });
+  }
+
+  /** Update an existing project in-place */
+  updateProject(id: string, data: Partial<IProject>) {
+    const project = this.store.get(id);
+    if (!project) return;
+
+    for (const permission of ProjectService.updatePermissions(project, data)) {
+      this.assertCan(project, permission);
+    }
+
+    // Unique name (5+ characters), start on or before finish
+    this.store.validateUpdate(project, data);
+
+    this.record(`Edit project "${project.name}"`, [id], () => {
+      project.update(data);
+      this.events.emit("projectUpdated", { project });
+    });
+  }
+
+  /** Moves a project to the trash (restorable until purged) */
+  deleteProject(id: string) {
+    const project = this.store.get(id);
+    if (!project || project.isTrashed) return;
+    this.assertCan(project, "project:delete");
+
+    this.record(`Move project "${project.name}" to the trash`, [id], () => {
+      project.trash();
+      this.events.emit("projectDeleted", { project, permanent: false });
+    });
+  }
+
+  restoreProject(id: string) {
+    const project = this.store.get(id);
+    if (!project || !project.isTrashed) return;
+    this.assertCan(project, "project:delete");
+
+    this.record(`Restore project "${project.name}"`, [id], () => {
+      project.restore();
+      this.events.emit("projectUpdated", { project });
+    });
+  }
+
+  archiveProject(id: string, archived: boolean = true) {
+    const project = this.store.get(id);
+    if (!project || project.archived === archived) return;
+    this.assertCan(project, "project:archive");
+
+    const verb = archived ? "Archive" : "Unarchive";
+    this.record(`${verb} project "${project.name}"`, [id], () => {
+      project.setArchived(archived);
+      this.events.emit("projectUpdated", { project });
+    });
+  }
+
+  /**
+   * Permanently removes a trashed project (clears the undo history: earlier
+   * steps could bring it back). Returns it so its IFC files can be removed too.
+   */
+  purgeProject(id: string): Project | undefined {
+    const project = this.store.get(id);
+    if (!project || !project.isTrashed) return;
+    this.assertCan(project, "project:delete");
+
+    this.store.remove(id);
+    this.events.emit("projectDeleted", { project, permanent: true });
+    this.history.clear();
+    return project;
+  }
+
+  // ----------------- ToDos -----------------
+
+  addTodo(projectId: string, title: string, status: TodoStatus, extra: TodoData = {}): ITodo {
+    const project = this.require(projectId);
+    this.assertCan(project, "todo:create");
+    ProjectStore.validateTodoTitle(title);
+
+    return this.record(`Add ToDo "${title.trim()}"`, [project.id], () => {
+      const todo = project.addTodo(title, status, extra);
+      this.events.emit("todoChanged", { project, todoIds: [todo.id] });
+      return todo;
+    });
+  }
+
+  updateTodo(projectId: string, todoId: string, data: TodoData) {
+    const project = this.require(projectId);
+    const todo = project.todos.find((t) => t.id === todoId);
+    if (!todo) return;
+
+    // Status moves and content edits are separate permissions
+    const changed = (Object.keys(data) as (keyof TodoData)[]).filter(
+      (key) => JSON.stringify(data[key]) !== JSON.stringify(todo[key])
+    );
+    if (changed.includes("status")) this.assertCan(project, "todo:status");
+    if (changed.some((key) => key !== "status")) this.assertCan(project, "todo:edit");
+    ProjectStore.validateDependencies(project, todo, data.dependsOn);
+
+    const description =
+      changed.length === 1 && changed[0] === "status"
+        ? `Change status of ToDo "${todo.title}" to ${data.status}`
+        : `Edit ToDo "${todo.title}"`;
+    this.record(description, [project.id], () => {
+      project.updateTodo(todoId, data);
+      this.events.emit("todoChanged", { project, todoIds: [todoId] });
+    });
+  }
+
+  deleteTodo(projectId: string, todoId: string) {
+    const project = this.require(projectId);
+    const todo = project.todos.find((t) => t.id === todoId);
+    if (!todo) return;
+    this.assertCan(project, "todo:delete");
+
+    this.record(`Delete ToDo "${todo.title}"`, [project.id], () => {
+      project.deleteTodo(todoId);
+      this.events.emit("todoChanged", { project, todoIds: [todoId] });
+    });
+  }
+
+  /**
+   * Board drag & drop. Changing the column needs todo:status,
+   * reordering inside a column needs todo:edit.
+   */
+  moveTodo(projectId: string, todoId: string, status: TodoStatus, beforeId: string | null = null) {
+    const project = this.require(projectId);
+    const todo = project.todos.find((t) => t.id === todoId);
+    if (!todo) return;
+
+    const statusChanged = todo.status !== status;
+    this.assertCan(project, statusChanged ? "todo:status" : "todo:edit");
+
+    const description = statusChanged
+      ? `Move ToDo "${todo.title}" to ${TodoFilter.STATUS_LABELS[status]}`
+      : `Reorder ToDo "${todo.title}"`;
+    this.record(description, [project.id], () => {
+      project.moveTodo(todoId, status, beforeId);
+      this.events.emit("todoChanged", { project, todoIds: [todoId] });
+    });
+  }
+
+  /** Timeline drag of a ToDo bar */
+  rescheduleTodo(projectId: string, todoId: string, span: DaySpan) {
+    const project = this.require(projectId);
+    const todo = project.todos.find((t) => t.id === todoId);
+    if (!todo) return;
+    this.assertCan(project, "todo:edit");
+
+    this.record(`Reschedule ToDo "${todo.title}"`, [project.id], () => {
+      project.updateTodo(todoId, { startDate: span.start, endDate: span.end });
+      this.events.emit("todoChanged", { project, todoIds: [todoId] });
+    });
+  }
+
+  bulkUpdateTodoStatus(projectId: string, todoIds: string[], status: TodoStatus) {
+    const project = this.require(projectId);
+    const todos = project.todos.filter((t) => todoIds.includes(t.id) && t.status !== status);
+    if (!todos.length) return;
+    this.assertCan(project, "todo:status");
+
+    const label = TodoFilter.STATUS_LABELS[status];
+    this.record(`Change status of ${todos.length} ToDo(s) to ${label}`, [project.id], () => {
+      for (const todo of todos) project.updateTodo(todo.id, { status });
+      this.events.emit("todoChanged", { project, todoIds: todos.map((t) => t.id) });
+    });
+  }
+
+  bulkDeleteTodos(projectId: string, todoIds: string[]) {
+    const project = this.require(projectId);
+    const todos = project.todos.filter((t) => todoIds.includes(t.id));
+    if (!todos.length) return;
+    this.assertCan(project, "todo:delete");
+
+    this.record(`Delete ${todos.length} ToDo(s)`, [project.id], () => {
+      for (const todo of todos) project.deleteTodo(todo.id);
+      this.events.emit("todoChanged", { project, todoIds: todos.map((t) => t.id) });
+    });
+  }
+
+  /** Moves (same ids, removed from the source) or copies (new ids) ToDos to another project */
+  transferTodos(
+    sourceId: string,
+    todoIds: string[],
+    targetProjectId: string,
+    mode: "move" | "copy"
+  ) {
+    const source = this.require(sourceId);
+    const target = this.store.get(targetProjectId);
+    if (!target) {
+      throw new Error("The target project does not exist.");
+    }
+    const todos = source.todos.filter((t) => todoIds.includes(t.id));
+    if (!todos.length) return;
+
+    this.assertCan(target, "todo:create");
+    if (mode === "move") this.assertCan(source, "todo:delete");
+
+    const verb = mode === "move" ? "Move" : "Copy";
+    this.record(`${verb} ${todos.length} ToDo(s) to "${target.name}"`, [source.id, target.id], () => {
+      const before = new Set(target.todos.map((t) => t.id));
+      ProjectStore.transferTodos(source, target, todos, mode);
+      if (mode === "move") {
+        this.events.emit("todoChanged", { project: source, todoIds: todos.map((t) => t.id) });
+      }
+      const received = target.todos.filter((t) => !before.has(t.id)).map((t) => t.id);
+      this.events.emit("todoChanged", { project: target, todoIds: received });
+    });
+  }
+
+  // ----------------- Budget -----------------
+
+  addCostItem(projectId: string, data: Omit<ICostItem, "id">) {
+    const project = this.require(projectId);
+    this.assertCan(project, "project:editSchedule");
+    ProjectStore.validateCostItem(data);
+
+    this.record(`Add cost "${data.description.trim()}"`, [project.id], () => {
+      project.addCostItem(data);
+      this.events.emit("projectUpdated", { project });
+    });
+  }
+
+  updateCostItem(projectId: string, itemId: string, data: Omit<ICostItem, "id">) {
+    const project = this.require(projectId);
+    const item = project.costItems.find((c) => c.id === itemId);
+    if (!item) return;
+    this.assertCan(project, "project:editSchedule");
+    ProjectStore.validateCostItem(data);
+
+    this.record(`Edit cost "${item.description}"`, [project.id], () => {
+      project.updateCostItem(itemId, data);
+      this.events.emit("projectUpdated", { project });
+    });
+  }
+
+  removeCostItem(projectId: string, itemId: string) {
+    const project = this.require(projectId);
+    const item = project.costItems.find((c) => c.id === itemId);
+    if (!item) return;
+    this.assertCan(project, "project:editSchedule");
+
+    this.record(`Remove cost "${item.description}"`, [project.id], () => {
+      project.removeCostItem(itemId);
+      this.events.emit("projectUpdated", { project });
+    });
+  }
+
+  // ----------------- Team members -----------------
+
+  setMembers(projectId: string, userIds: string[]) {
+    const project = this.require(projectId);
+    this.assertCan(project, "project:members");
+
+    const unknown = userIds.find((id) => !this.users?.getUser(id));
+    if (unknown) {
+      throw new Error(`User ${unknown} does not exist.`);
+    }
+
+    this.record(`Change team of "${project.name}"`, [project.id], () => {
+      // Unassigned members also lose their ToDos
+      for (const id of project.memberIds) {
+        if (!userIds.includes(id)) project.removeMember(id);
+      }
+      const before = project.memberIds.length;
+      project.setMembers(userIds);
+      project.log("project.members", [
+        { field: "members", before, after: project.memberIds.length },
+      ]);
+      this.events.emit("projectUpdated", { project });
+    });
+  }
+
+  /**
+   * Removes a deleted user from every project and ToDo.
+   * Not an undoable step: the user deletion itself can't be undone.
+   */
+  unassignUser(userId: string) {
+    for (const project of this.list) {
+      const assigned =
+        project.memberIds.includes(userId) || project.todos.some((t) => t.assigneeId === userId);
+      if (!assigned) continue;
+
+      const before = project.memberIds.length;
+      project.removeMember(userId);
+      project.log("project.members", [{ field: "members", before, after: project.memberIds.length }], {
+        label: "Deleted user unassigned",
+      });
+      this.events.emit("projectUpdated", { project });
+    }
+  }
+
+  // ----------------- Imports -----------------
+
+  /** BCF topics as ToDos of a project (deduped by topic GUID, BCF wins on its fields) */
+  importBcfTopics(
+    projectId: string,
+    topics: BcfTopic[],
+    fileName: string
+  ): { created: number; updated: number } {
+    const project = this.require(projectId);
+    this.assertCan(project, "todo:create");
+    this.assertCan(project, "todo:edit");
+
+    let created = 0;
+    let updated = 0;
+    this.record(`Import BCF "${fileName}"`, [project.id], () => {
+      for (const topic of topics) {
+        const existing = project.todos.find((t) => t.id === topic.id);
+        // Keep local-only fields of an existing ToDo, BCF wins on the rest
+        project.upsertTodo({ ...existing, ...topic });
+        if (existing) {
+          updated++;
+        } else {
+          created++;
+        }
+      }
+      project.log(
+        "project.imported",
+        [
+          { field: "todos created", before: null, after: created },
+          { field: "todos updated", before: null, after: updated },
+        ],
+        { label: `BCF ${fileName}` }
+      );
+      this.events.emit("todoChanged", { project, todoIds: topics.map((t) => t.id) });
+    });
+    return { created, updated };
+  }
+
+  /**
+   * Builds the import plan. Updates are held to the same rules as edits: an entry
+   * changing anything the project's role may not change is skipped.
+   */
+  planImport(
+    data: IProjectsExport,
+    sourceVersion: number,
+    mergeMode: TodoMergeMode = "newest-wins"
+  ): ImportPlan {
+    const plan = ProjectsImport.plan(data, sourceVersion, this.list, mergeMode, this.users?.list ?? []);
+
+    plan.entries = plan.entries.map((entry) => {
+      if (entry.action !== "update" || !entry.existing || !entry.data) return entry;
+      const role = entry.existing.userRole;
+      const denied = ProjectService.importPermissions(entry.existing, entry.data).filter(
+        (permission) => !this.can(entry.existing!, permission)
+      );
+      if (!denied.length) return entry;
+      return {
+        ...entry,
+        action: "skip",
+        data: null,
+        existing: null,
+        reasons: denied.map(
+          (permission) => `your role (${role}) is not allowed to ${Permissions.DESCRIPTIONS[permission]}`
+        ),
+        overwrites: [],
+        todoMerge: null,
+      };
+    });
+    return plan;
+  }
+
+  /** Applies a previewed import plan (skipped entries are ignored) as one undoable step */
+  applyImport(plan: ImportPlan) {
+    // All or nothing: check every updated project before touching anything
+    for (const entry of plan.entries) {
+      if (entry.action === "update" && entry.existing && entry.data) {
+        for (const permission of ProjectService.importPermissions(entry.existing, entry.data)) {
+          this.assertCan(entry.existing, permission);
+        }
+      }
+    }
+
+    const applied = plan.entries.filter((e) => e.action !== "skip").length;
+    this.record(`Import ${applied} project(s)`, null, () => this.applyImportEntries(plan), true);
+  }
+
+  private applyImportEntries(plan: ImportPlan) {
+    // Users first so members / assignees resolve when projects render
+    for (const entry of plan.users) {
+      if (!entry.data || !this.users) continue;
+      try {
+        this.users.upsertUser(entry.data);
+      } catch (err) {
+        console.warn(`User "${entry.name}" was not imported.`, err);
+      }
+    }
+
+    const created: Project[] = [];
+    const updated: Project[] = [];
+    for (const entry of plan.entries) {
+      const incoming = entry.data;
+      if (!incoming) continue;
+
+      if (entry.action === "update" && entry.existing) {
+        ProjectStore.mergeImported(entry.existing, incoming, entry.todoMerge, plan.mergeMode);
+        updated.push(entry.existing);
+      } else if (entry.action === "create") {
+        created.push(this.store.addImported(incoming));
+      }
+    }
+    this.events.emit("imported", { created, updated });
+  }
+
+  // ----------------- Undo / Redo -----------------
+
+  /**
+   * Runs a mutation as one undoable step. The touched projects (plus any project
+   * created meanwhile) are snapshotted before and after; ids = null means all of them.
+   * Nested calls (e.g. inside an import) are part of the outer step.
+   */
+  record<T>(description: string, ids: string[] | null, mutate: () => T, withUsers: boolean = false): T {
+    if (this.recording) return mutate();
+
+    const knownIds = new Set(this.list.map((p) => p.id));
+    const targetIds = ids ?? Array.from(knownIds);
+    const before = new Map<string, IProject | null>();
+    for (const id of targetIds) before.set(id, this.store.get(id)?.toJSON() ?? null);
+    const usersBefore = withUsers ? this.users?.snapshot() ?? null : null;
+
+    this.recording = true;
+    let result: T;
+    try {
+      result = mutate();
+    } finally {
+      this.recording = false;
+    }
+
+    for (const project of this.list) {
+      if (!knownIds.has(project.id)) before.set(project.id, null);
+    }
+    const after = new Map<string, IProject | null>();
+    for (const id of before.keys()) after.set(id, this.store.get(id)?.toJSON() ?? null);
+    const usersAfter = withUsers ? this.users?.snapshot() ?? null : null;
+
+    // Nothing changed (early return, same values...) => no history entry
+    const changed =
+      JSON.stringify([...before.values(), usersBefore]) !==
+      JSON.stringify([...after.values(), usersAfter]);
+    if (changed) {
+      this.history.push({
+        description,
+        undo: () => this.restoreSnapshot(before, usersBefore, `Undo: ${description}`),
+        redo: () => this.restoreSnapshot(after, usersAfter, `Redo: ${description}`),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Brings projects (null => project did not exist) and users back to a snapshot.
+   * The activity log stays append-only: the revert is logged instead of rewinding it.
+   */
+  private restoreSnapshot(
+    projects: Map<string, IProject | null>,
+    users: IUser[] | null,
+    note: string
+  ) {
+    const state = ({ activity, updatedAt, models, ...rest }: IProject) => JSON.stringify(rest);
+
+    if (users && this.users) this.users.restoreSnapshot(users);
+
+    for (const [id, data] of projects) {
+      const existing = this.store.get(id);
+      if (!data) {
+        if (!existing) continue;
+        this.store.remove(id);
+        this.events.emit("projectDeleted", { project: existing, permanent: true });
+        continue;
+      }
+      if (existing) {
+        if (state(existing.toJSON()) === state(data)) continue;
+        // IFC files live outside the history: keep the current attachments
+        existing.applySnapshot({ ...data, models: existing.models, activity: existing.activity });
+        existing.log("project.reverted", [], { label: note });
+        this.events.emit("projectUpdated", { project: existing });
+      } else {
+        const created = new Project(data);
+        this.store.add(created);
+        this.events.emit("projectCreated", { project: created });
+      }
+    }
+  }
+
+  /** Reverts the last step; returns its description (null if nothing to undo) */
+  undo(): string | null {
+    return this.history.undo()?.description ?? null;
+  }
+
+  redo(): string | null {
+    return this.history.redo()?.description ?? null;
+  }
+}
@@ -0,0 +1,253 @@
+import { v4 as uuidv4 } from "uuid";
+import { ICostItem, IProject, ITodo, Project } from "./Project";
+import { TodoMergeMode, TodoMergeResult } from "./ProjectsImport";
+import { Schedule } from "./Schedule";
+
+/** A project entering or leaving the collection (changes inside it: Project.onChange) */
+export type ProjectStoreChange = { type: "added" | "removed"; project: Project };
+
+/**
+ * The projects collection and its rules: unique names, valid dates and costs,
+ * ToDo dependencies, moves between projects and import merges.
+ * No DOM: ProjectService adds permissions, undo and events on top.
+ */
+export class ProjectStore {
+  list: Project[] = [];
+
+  private listeners: Set<(change: ProjectStoreChange) => void> = new Set();
+
+  /** Calls `listener` when a project is added or removed; returns the unsubscribe function */
+  onChange(listener: (change: ProjectStoreChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(change: ProjectStoreChange) {
+    for (const listener of [...this.listeners]) listener(change);
+  }
+
+  get(id: string): Project | undefined {
+    return this.list.find((p) => p.id === id);
+  }
+
+  /** Find project by name (case-insensitive) */
+  getByName(name: string): Project | undefined {
+    const n = (name ?? "").trim().toLowerCase();
+    return this.list.find((p) => p.name.trim().toLowerCase() === n);
+  }
+
+  add(project: Project) {
+    this.list.push(project);
+    this.emit({ type: "added", project });
+  }
+
+  remove(id: string): Project | undefined {
+    const project = this.get(id);
+    if (!project) return;
+    this.list = this.list.filter((p) => p.id !== id);
+    this.emit({ type: "removed", project });
+    return project;
+  }
+
+  // ----------------- Validation -----------------
+
+  /** Trimmed name; throws when shorter than 5 characters or used by another project */
+  validateName(name: string | undefined, exceptId: string | null = null): string {
+    const normalized = (name ?? "").trim();
+    if (normalized.length < 5) {
+      throw new Error("Project name must be at least 5 characters long.");
+    }
+    // Unique by name (case-insensitive)
+    const nameInUse = this.list.some(
+      (p) => p.id !== exceptId && p.name.trim().toLowerCase() === normalized.toLowerCase()
+    );
+    if (nameInUse) {
+      throw new Error(`A project with the name "${normalized}" already exists`);
+    }
+    return normalized;
+  }
+
+  /** Name and dates of an update (other fields are normalized by Project.update) */
+  validateUpdate(project: Project, data: Partial<IProject>) {
+    if (typeof data.name === "string") this.validateName(data.name, project.id);
+
+    if ("startDate" in data || "finishDate" in data) {
+      const finish = "finishDate" in data ? Project.normalizeDate(data.finishDate) : project.finishDate;
+      const start =
+        "startDate" in data
+          ? Project.normalizeStartDate(data.startDate, project.createdAt, finish)
+          : project.startDate;
+      ProjectStore.validateSchedule(start, finish);
+    }
+  }
+
+  static validateSchedule(start: Date, finish: Date) {
+    if (start.toISOString().slice(0, 10) > finish.toISOString().slice(0, 10)) {
+      throw new Error("The start date must be on or before the finish date.");
+    }
+  }
+
+  static validateCostItem(data: Omit<ICostItem, "id">) {
+    if (!data.description.trim()) {
+      throw new Error("Cost items need a description.");
+    }
+    if (!Number.isFinite(data.amount) || data.amount === 0) {
+      throw new Error("Cost amount must be a non-zero number.");
+    }
+    if (!Project.normalizeDueDate(data.date)) {
+      throw new Error(`"${data.date}" is not a valid date.`);
+    }
+  }
+
+  static validateTodoTitle(title: string) {
+    if (!title.trim()) {
+      throw new Error("ToDo title cannot be empty.");
+    }
+  }
+
+  static validateDependencies(project: Project, todo: ITodo, dependsOn: string[] | undefined) {
+    if (dependsOn && Schedule.wouldCycle(project.todos, todo.id, dependsOn)) {
+      throw new Error(`"${todo.title}" cannot depend on a ToDo that waits for it.`);
+    }
+  }
+
+  // ----------------- Changes -----------------
+
+  /** Validates and adds a new project */
+  create(data: IProject): Project {
+    const name = this.validateName(data.name);
+    if (data.startDate) {
+      ProjectStore.validateSchedule(
+        Project.normalizeDate(data.startDate),
+        Project.normalizeDate(data.finishDate)
+      );
+    }
+
+    const project = new Project({ ...data, name });
+    project.log("project.created");
+    this.add(project);
+    return project;
+  }
+
+  /**
+   * Moves (same ids, removed from `source`) or copies (new ids) ToDos to `target`.
+   * Assignees who aren't members of the target project are dropped, and so are
+   * dependencies on ToDos that stay behind (copies depend on the new copies).
+   */
+  static transferTodos(source: Project, target: Project, todos: ITodo[], mode: "move" | "copy") {
+    if (target.isTrashed) {
+      throw new Error("The target project does not exist.");
+    }
+    if (target.id === source.id) {
+      throw new Error("ToDos are already in this project.");
+    }
+
+    // Computed up front: moving a ToDo out strips it from the others' dependsOn
+    const ids = new Map(todos.map((t) => [t.id, mode === "move" ? t.id : uuidv4()]));
+    const dependsOn = new Map(
+      todos.map((t) => [
+        t.id,
+        (t.dependsOn ?? []).flatMap((id) => {
+          const mapped = ids.get(id);
+          return mapped ? [mapped] : [];
+        }),
+      ])
+    );
+
+    for (const todo of todos) {
+      const assigneeId =
+        todo.assigneeId && target.memberIds.includes(todo.assigneeId) ? todo.assigneeId : undefined;
+      const transferred = { ...todo, assigneeId, dependsOn: dependsOn.get(todo.id) };
+      if (mode === "move") {
+        source.deleteTodo(todo.id, `moved to ${target.name}`);
+        target.receiveTodo(transferred, `moved from ${source.name}`);
+      } else {
+        const now = new Date().toISOString();
+        target.receiveTodo(
+          { ...transferred, id: ids.get(todo.id), createdAt: now },
+          `copied from ${source.name}`
+        );
+      }
+    }
+  }
+
+  /** New project from an import entry (without the file's models, see mergeImported) */
+  addImported(data: IProject): Project {
+    const project = new Project({ ...data, models: [] });
+    project.log("project.imported", [], { label: "Created from import" });
+    this.add(project);
+    return project;
+  }
+
+  /** Project fields an import entry writes (missing ones keep the local value) */
+  static importedFields(existing: Project, incoming: IProject): Partial<IProject> {
+    return {
+      name: incoming.name,
+      description: incoming.description ?? existing.description,
+      status: incoming.status ?? existing.status,
+      userRole: incoming.userRole ?? existing.userRole,
+      startDate: incoming.startDate ?? existing.startDate,
+      finishDate: incoming.finishDate ?? existing.finishDate,
+      budget: typeof incoming.budget === "number" ? incoming.budget : existing.budget,
+      currency: incoming.currency ?? existing.currency,
+      progress:
+        typeof incoming.progress === "number" ? incoming.progress : existing.manualProgress,
+      progressMode: incoming.progressMode ?? existing.progressMode,
+      iconBg: incoming.iconBg ?? existing.iconBg,
+    };
+  }
+
+  /**
+   * Applies an import entry to an existing project (fields, ToDos, activity, costs, team).
+   * Models stay as they are: their IFC bytes live in this device's ModelFileStore, not in the file.
+   */
+  static mergeImported(
+    existing: Project,
+    incoming: IProject,
+    todoMerge: TodoMergeResult | null,
+    mergeMode: TodoMergeMode
+  ) {
+    existing.update(ProjectStore.importedFields(existing, incoming), "project.imported");
+
+    // Todos merged by id according to the plan's merge mode
+    if (todoMerge) {
+      existing.todos = todoMerge.todos;
+      const { added, updated, removed } = todoMerge;
+      if (added || updated || removed) {
+        existing.log(
+          "project.imported",
+          [
+            { field: "todos added", before: null, after: added },
+            { field: "todos updated", before: null, after: updated },
+            { field: "todos removed", before: null, after: removed },
+          ],
+          { label: `ToDos merged (${mergeMode})` }
+        );
+      }
+    }
+
+    // The file's history is appended to the local one
+    existing.mergeActivity(incoming.activity);
+
+    // Line items replace the local ones (a bare `cost` number can't be itemized)
+    if (Array.isArray(incoming.costItems)) {
+      const before = existing.cost;
+      existing.costItems = Project.normalizeCostItems(incoming);
+      if (existing.cost !== before) {
+        existing.log("project.imported", [{ field: "cost", before, after: existing.cost }]);
+      }
+    }
+
+    if (Array.isArray(incoming.memberIds)) {
+      existing.setMembers(incoming.memberIds);
+    }
+
+    if (typeof incoming.archived === "boolean") {
+      existing.archived = incoming.archived;
+    }
+
+    existing.changed();
+  }
+}
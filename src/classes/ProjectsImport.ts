@@ -0,0 +1,692 @@
+import {
+  IProject,
+  ITodo,
+  ProgressMode,
+  Project,
+  ProjectStatus,
+  UserRole,
+} from "./Project";
+import { IUser, User } from "./User";
+
+/** Versioned export file ({ schemaVersion, exportedAt, projects, users }) */
+export interface IProjectsExport {
+  schemaVersion: number;
+  exportedAt: string; // ISO
+  projects: unknown[];
+  users: unknown[];
+}
+
+export type ImportAction = "create" | "update" | "skip";
+
+/**
+ * How incoming ToDos are combined with local ones on update:
+ * - replace: incoming list wins as a whole (local-only ToDos are dropped)
+ * - keep-local: union by id, local version wins on conflicts
+ * - newest-wins: union by id, the most recent updatedAt wins on conflicts
+ */
+export type TodoMergeMode = "replace" | "keep-local" | "newest-wins";
+
+export type TodoConflict = {
+  id: string;
+  title: string;
+  resolution: "local" | "incoming";
+};
+
+export type TodoMergeResult = {
+  todos: ITodo[];
+  added: number;
+  updated: number;
+  removed: number;
+  conflicts: TodoConflict[];
+};
+
+export type ImportPlanEntry = {
+  action: ImportAction;
+  name: string;
+  // Normalized data to apply (null when skipped)
+  data: IProject | null;
+  // Target project for updates
+  existing: Project | null;
+  // Why it is skipped (validation errors, duplicates...)
+  reasons: string[];
+  // Human readable list of values that will be overwritten on update
+  overwrites: string[];
+  // Resulting ToDo list on update (null => keep local todos untouched)
+  todoMerge: TodoMergeResult | null;
+};
+
+export type UserImportEntry = {
+  action: ImportAction;
+  name: string;
+  // Normalized data to apply, with the local id on update (null when skipped)
+  data: IUser | null;
+  existing: User | null;
+  reasons: string[];
+  overwrites: string[];
+};
+
+export type ImportPlan = {
+  schemaVersion: number; // version found in the file (before migrations)
+  exportedAt: string | null;
+  mergeMode: TodoMergeMode;
+  entries: ImportPlanEntry[];
+  users: UserImportEntry[];
+};
+
+const PROJECT_STATUSES: ProjectStatus[] = ["pending", "active", "finished"];
+const USER_ROLES: UserRole[] = ["architect", "engineer", "developer"];
+const PROGRESS_MODES: ProgressMode[] = ["manual", "todos", "milestones"];
+
+// ----------------- Type guards -----------------
+
+/** Parsed JSON object (entries are checked one field at a time) */
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return !!value && typeof value === "object";
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return values.some((v) => v === value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((x) => typeof x === "string");
+}
+
+/** Trimmed "name" of a raw entry ("" when missing), used to label skipped entries */
+function rawName(raw: unknown): string {
+  return isObject(raw) && typeof raw.name === "string" ? raw.name.trim() : "";
+}
+
+/**
+ * Parsing, migration, validation and planning of JSON imports.
+ * Nothing here touches the DOM or mutates projects: ProjectsManager applies the plan.
+ */
+export class ProjectsImport {
+  static readonly SCHEMA_VERSION = 3;
+
+  /**
+   * Migrations keyed by the version they upgrade FROM.
+   * v1 = bare IProject[] array (exports made before the envelope existed).
+   * v2 = envelope without users.
+   */
+  private static readonly MIGRATIONS: Record<number, (data: unknown) => RawObject> = {
+    1: (data) => ({ schemaVersion: 2, exportedAt: "", projects: data }),
+    2: (data) => ({ ...(isObject(data) ? data : {}), schemaVersion: 3, users: [] }),
+  };
+
+  /** Builds the export envelope for the current schema */
+  static createExport(projects: IProject[], users: IUser[] = []): IProjectsExport {
+    return {
+      schemaVersion: ProjectsImport.SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      projects,
+      users,
+    };
+  }
+
+  /** Parses a file's text and upgrades it to the current schema */
+  static parse(json: string): { data: IProjectsExport; sourceVersion: number } {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (e) {
+      throw new Error("Invalid JSON file.");
+    }
+
+    let version: number;
+    let data: unknown = raw;
+    if (Array.isArray(raw)) {
+      version = 1;
+    } else if (isObject(raw) && typeof raw.schemaVersion === "number") {
+      version = raw.schemaVersion;
+    } else {
+      throw new Error("Unrecognized file: expected a projects export.");
+    }
+
+    if (version > ProjectsImport.SCHEMA_VERSION) {
+      throw new Error(
+        `This file was exported with a newer version of the app (schema ${version}).`
+      );
+    }
+
+    const sourceVersion = version;
+    while (version < ProjectsImport.SCHEMA_VERSION) {
+      const migrate = ProjectsImport.MIGRATIONS[version];
+      if (!migrate) throw new Error(`No migration available from schema ${version}.`);
+      const migrated = migrate(data);
+      if (typeof migrated.schemaVersion !== "number" || migrated.schemaVersion <= version) {
+        throw new Error(`Migration from schema ${version} did not upgrade the file.`);
+      }
+      data = migrated;
+      version = migrated.schemaVersion;
+    }
+
+    const projects = isObject(data) ? data.projects : undefined;
+    const users = isObject(data) ? data.users : undefined;
+    if (!Array.isArray(projects)) {
+      throw new Error("Invalid export: \"projects\" must be an array.");
+    }
+    if (!Array.isArray(users)) {
+      throw new Error("Invalid export: \"users\" must be an array.");
+    }
+    const exportedAt = isObject(data) && typeof data.exportedAt === "string" ? data.exportedAt : "";
+    return { data: { schemaVersion: version, exportedAt, projects, users }, sourceVersion };
+  }
+
+  /** Field-level validation; returns normalized data or the list of problems */
+  static validate(raw: unknown): { project: IProject | null; errors: string[] } {
+    const errors: string[] = [];
+    if (!isObject(raw)) {
+      return { project: null, errors: ["entry is not an object"] };
+    }
+    const p = raw;
+
+    const name = typeof p.name === "string" ? p.name.trim() : "";
+    if (name.length < 5) errors.push("name must be at least 5 characters long");
+
+    if (p.description !== undefined && typeof p.description !== "string") {
+      errors.push("description must be text");
+    }
+    const status = isOneOf(PROJECT_STATUSES, p.status) ? p.status : null;
+    if (!status) {
+      errors.push(`invalid status "${p.status}" (expected ${PROJECT_STATUSES.join(", ")})`);
+    }
+    const userRole = isOneOf(USER_ROLES, p.userRole) ? p.userRole : null;
+    if (!userRole) {
+      errors.push(`invalid role "${p.userRole}" (expected ${USER_ROLES.join(", ")})`);
+    }
+    if (p.finishDate !== undefined && p.finishDate !== null && p.finishDate !== "") {
+      if (Number.isNaN(new Date(String(p.finishDate)).getTime())) {
+        errors.push(`invalid finish date "${p.finishDate}"`);
+      }
+    }
+    if (p.startDate !== undefined && p.startDate !== null && p.startDate !== "") {
+      const start = new Date(String(p.startDate));
+      if (Number.isNaN(start.getTime())) {
+        errors.push(`invalid start date "${p.startDate}"`);
+      } else if (p.finishDate && start > new Date(String(p.finishDate))) {
+        errors.push("start date is after the finish date");
+      }
+    }
+    // Net spend: credit lines can take it below zero (and costItems, when present, win over it)
+    if (p.cost !== undefined && !(typeof p.cost === "number" && Number.isFinite(p.cost))) {
+      errors.push("cost must be a number");
+    }
+    if (
+      p.budget !== undefined &&
+      !(typeof p.budget === "number" && Number.isFinite(p.budget) && p.budget >= 0)
+    ) {
+      errors.push("budget must be a positive number");
+    }
+    if (
+      p.currency !== undefined &&
+      !(typeof p.currency === "string" && /^[A-Za-z]{3}$/.test(p.currency.trim()))
+    ) {
+      errors.push(`invalid currency "${p.currency}" (use an ISO code like USD)`);
+    }
+    if (p.costItems !== undefined) {
+      if (!Array.isArray(p.costItems)) {
+        errors.push("costItems must be an array");
+      } else {
+        p.costItems.forEach((c: unknown, i: number) => {
+          const amount = isObject(c) ? c.amount : undefined;
+          if (typeof amount !== "number" || !Number.isFinite(amount)) {
+            errors.push(`cost item #${i + 1} has no valid amount`);
+          }
+        });
+      }
+    }
+    if (p.models !== undefined) {
+      if (!Array.isArray(p.models)) {
+        errors.push("models must be an array");
+      } else {
+        p.models.forEach((m: unknown, i: number) => {
+          if (!isObject(m)) {
+            errors.push(`model #${i + 1} is not an object`);
+            return;
+          }
+          if (typeof m.id !== "string" || !m.id.trim()) {
+            errors.push(`model #${i + 1} has no id`);
+          }
+          if (typeof m.name !== "string" || !m.name.trim()) {
+            errors.push(`model #${i + 1} has no file name`);
+          }
+          if (m.size !== undefined && !(typeof m.size === "number" && m.size >= 0)) {
+            errors.push(`model #${i + 1} has an invalid size`);
+          }
+        });
+      }
+    }
+    if (
+      p.progress !== undefined &&
+      !(typeof p.progress === "number" && p.progress >= 0 && p.progress <= 1)
+    ) {
+      errors.push("progress must be a number between 0 and 1");
+    }
+    if (p.progressMode !== undefined && !isOneOf(PROGRESS_MODES, p.progressMode)) {
+      errors.push(`invalid progress mode "${p.progressMode}"`);
+    }
+    if (p.id !== undefined && (typeof p.id !== "string" || !p.id.trim())) {
+      errors.push("id must be a non-empty string");
+    }
+
+    if (p.activity !== undefined && !Array.isArray(p.activity)) {
+      errors.push("activity must be an array");
+    }
+    if (p.archived !== undefined && typeof p.archived !== "boolean") {
+      errors.push("archived must be true or false");
+    }
+    if (p.memberIds !== undefined && !isStringList(p.memberIds)) {
+      errors.push("memberIds must be a list of user ids");
+    }
+
+    if (p.todos !== undefined) {
+      if (!Array.isArray(p.todos)) {
+        errors.push("todos must be an array");
+      } else {
+        p.todos.forEach((t: unknown, i: number) => {
+          if (!isObject(t)) {
+            errors.push(`todo #${i + 1} is not an object`);
+            return;
+          }
+          if (typeof t.title !== "string" || !t.title.trim()) {
+            errors.push(`todo #${i + 1} has no title`);
+          }
+          if (t.status !== undefined && !isOneOf(Project.TODO_STATUSES, t.status)) {
+            errors.push(`todo #${i + 1} has invalid status "${t.status}"`);
+          }
+          if (t.assigneeId !== undefined && typeof t.assigneeId !== "string") {
+            errors.push(`todo #${i + 1} has an invalid assignee`);
+          }
+          if (t.rank !== undefined && (typeof t.rank !== "number" || !Number.isFinite(t.rank))) {
+            errors.push(`todo #${i + 1} has an invalid rank`);
+          }
+          if (t.priority !== undefined && !isOneOf(Project.TODO_PRIORITIES, t.priority)) {
+            errors.push(`todo #${i + 1} has invalid priority "${t.priority}"`);
+          }
+          if (t.dueDate !== undefined && t.dueDate !== null && !Project.normalizeDueDate(t.dueDate)) {
+            errors.push(`todo #${i + 1} has an invalid due date`);
+          }
+          if (t.description !== undefined && typeof t.description !== "string") {
+            errors.push(`todo #${i + 1} has an invalid description`);
+          }
+          if (t.tags !== undefined && !isStringList(t.tags)) {
+            errors.push(`todo #${i + 1} tags must be an array of strings`);
+          }
+          if (t.checklist !== undefined && !Array.isArray(t.checklist)) {
+            errors.push(`todo #${i + 1} checklist must be an array`);
+          }
+          if (t.weight !== undefined && !(typeof t.weight === "number" && t.weight > 0)) {
+            errors.push(`todo #${i + 1} weight must be a positive number`);
+          }
+          if (t.milestone !== undefined && typeof t.milestone !== "boolean") {
+            errors.push(`todo #${i + 1} milestone must be true or false`);
+          }
+          for (const key of ["startDate", "endDate"]) {
+            const value = t[key];
+            if (value !== undefined && value !== null && !Project.normalizeDueDate(value)) {
+              errors.push(`todo #${i + 1} has an invalid ${key === "startDate" ? "start" : "end"} date`);
+            }
+          }
+          if (t.dependsOn !== undefined && !isStringList(t.dependsOn)) {
+            errors.push(`todo #${i + 1} dependsOn must be an array of ToDo ids`);
+          }
+        });
+      }
+    }
+
+    if (errors.length || !status || !userRole) return { project: null, errors };
+
+    return {
+      project: {
+        ...p,
+        name,
+        description: typeof p.description === "string" ? p.description : "",
+        status,
+        userRole,
+        // Imported projects never land in the trash
+        deletedAt: null,
+      },
+      errors,
+    };
+  }
+
+  /** Same idea as validate() for team members */
+  static validateUser(raw: unknown): { user: IUser | null; errors: string[] } {
+    const errors: string[] = [];
+    if (!isObject(raw)) {
+      return { user: null, errors: ["entry is not an object"] };
+    }
+    const u = raw;
+
+    const name = typeof u.name === "string" ? u.name.trim() : "";
+    if (name.length < 2) errors.push("name must be at least 2 characters long");
+
+    const email = User.normalizeEmail(u.email);
+    if (!User.isValidEmail(email)) errors.push(`invalid email "${u.email}"`);
+
+    const role = isOneOf(USER_ROLES, u.role) ? u.role : null;
+    if (!role) {
+      errors.push(`invalid role "${u.role}" (expected ${USER_ROLES.join(", ")})`);
+    }
+    if (u.id !== undefined && (typeof u.id !== "string" || !u.id.trim())) {
+      errors.push("id must be a non-empty string");
+    }
+
+    if (errors.length || !role) return { user: null, errors };
+    return { user: { ...u, name, email, role }, errors };
+  }
+
+  /** Decides what would happen to every incoming project and user, without applying anything */
+  static plan(
+    data: IProjectsExport,
+    sourceVersion: number,
+    existingProjects: Project[],
+    mergeMode: TodoMergeMode = "newest-wins",
+    existingUsers: User[] = []
+  ): ImportPlan {
+    // Users first: projects reference them by id
+    const { users, userIds } = ProjectsImport.planUsers(data.users, existingUsers);
+
+    const entries: ImportPlanEntry[] = [];
+    const claimed = new Set<string>(); // ids already targeted by an earlier entry
+    const createdNames = new Set<string>();
+
+    data.projects.forEach((raw, index) => {
+      const label = rawName(raw) || `Project #${index + 1}`;
+      const validated = ProjectsImport.validate(raw);
+      if (!validated.project) {
+        entries.push(ProjectsImport.skip(label, validated.errors));
+        return;
+      }
+      const project = ProjectsImport.remapUsers(validated.project, userIds);
+
+      // 1) Same id => update, 2) same name (case-insensitive) => update, 3) create
+      const key = project.name.toLowerCase();
+      const existing =
+        (typeof project.id === "string"
+          ? existingProjects.find((p) => p.id === project.id)
+          : undefined) ??
+        existingProjects.find((p) => p.name.trim().toLowerCase() === key) ??
+        null;
+
+      if (existing) {
+        if (claimed.has(existing.id)) {
+          entries.push(ProjectsImport.skip(label, ["duplicated in the file"]));
+          return;
+        }
+        const nameTaken = existingProjects.some(
+          (p) => p.id !== existing.id && p.name.trim().toLowerCase() === key
+        );
+        if (nameTaken) {
+          entries.push(
+            ProjectsImport.skip(label, [`another project is already named "${project.name}"`])
+          );
+          return;
+        }
+        claimed.add(existing.id);
+        const todoMerge = Array.isArray(project.todos)
+          ? ProjectsImport.mergeTodos(
+              existing.todos,
+              project.todos.map((t) => Project.normalizeTodo(t)),
+              mergeMode
+            )
+          : null;
+        entries.push({
+          action: "update",
+          name: project.name,
+          data: project,
+          existing,
+          reasons: [],
+          overwrites: ProjectsImport.diff(existing, project, todoMerge),
+          todoMerge,
+        });
+        return;
+      }
+
+      if (createdNames.has(key) || (project.id && claimed.has(project.id))) {
+        entries.push(ProjectsImport.skip(label, ["duplicated in the file"]));
+        return;
+      }
+      createdNames.add(key);
+      if (project.id) claimed.add(project.id);
+      entries.push({
+        action: "create",
+        name: project.name,
+        data: project,
+        existing: null,
+        reasons: [],
+        overwrites: [],
+        todoMerge: null,
+      });
+    });
+
+    return {
+      schemaVersion: sourceVersion,
+      exportedAt: data.exportedAt || null,
+      mergeMode,
+      entries,
+      users,
+    };
+  }
+
+  /**
+   * Users are matched by id, then by email. Returns the entries plus the
+   * incoming => local id map used to fix project members and ToDo assignees.
+   */
+  private static planUsers(
+    rawUsers: unknown[],
+    existingUsers: User[]
+  ): { users: UserImportEntry[]; userIds: Map<string, string> } {
+    const users: UserImportEntry[] = [];
+    const userIds = new Map<string, string>();
+    const claimed = new Set<string>();
+    const createdEmails = new Set<string>();
+
+    rawUsers.forEach((raw, index) => {
+      const label = rawName(raw) || `User #${index + 1}`;
+      const skip = (reasons: string[]): UserImportEntry => ({
+        action: "skip",
+        name: label,
+        data: null,
+        existing: null,
+        reasons,
+        overwrites: [],
+      });
+
+      const { user, errors } = ProjectsImport.validateUser(raw);
+      if (!user) {
+        users.push(skip(errors));
+        return;
+      }
+
+      const existing =
+        (typeof user.id === "string" ? existingUsers.find((u) => u.id === user.id) : undefined) ??
+        existingUsers.find((u) => u.email === user.email) ??
+        null;
+
+      if (existing) {
+        const emailTaken = existingUsers.some(
+          (u) => u.id !== existing.id && u.email === user.email
+        );
+        if (claimed.has(existing.id) || emailTaken) {
+          users.push(skip([`duplicated email "${user.email}"`]));
+          return;
+        }
+        claimed.add(existing.id);
+        if (user.id) userIds.set(user.id, existing.id);
+
+        const overwrites: string[] = [];
+        if (existing.name !== user.name) overwrites.push(`name: ${existing.name} → ${user.name}`);
+        if (existing.email !== user.email) overwrites.push(`email: ${existing.email} → ${user.email}`);
+        if (existing.role !== user.role) overwrites.push(`role: ${existing.role} → ${user.role}`);
+
+        users.push({
+          action: "update",
+          name: user.name,
+          data: { ...user, id: existing.id },
+          existing,
+          reasons: [],
+          overwrites,
+        });
+        return;
+      }
+
+      if (createdEmails.has(user.email) || (user.id && claimed.has(user.id))) {
+        users.push(skip(["duplicated in the file"]));
+        return;
+      }
+      createdEmails.add(user.email);
+      if (user.id) claimed.add(user.id);
+      users.push({
+        action: "create",
+        name: user.name,
+        data: user,
+        existing: null,
+        reasons: [],
+        overwrites: [],
+      });
+    });
+
+    return { users, userIds };
+  }
+
+  /** Rewrites member / assignee ids of users that matched a local user by email */
+  private static remapUsers(project: IProject, userIds: Map<string, string>): IProject {
+    if (!userIds.size) return project;
+    const map = (id: string) => userIds.get(id) ?? id;
+    return {
+      ...project,
+      memberIds: project.memberIds?.map(map),
+      todos: project.todos?.map((t) => (t.assigneeId ? { ...t, assigneeId: map(t.assigneeId) } : t)),
+    };
+  }
+
+  /** Merges two ToDo lists by id (local order first, then incoming-only ToDos) */
+  static mergeTodos(local: ITodo[], incoming: ITodo[], mode: TodoMergeMode): TodoMergeResult {
+    const incomingById = new Map(incoming.map((t) => [t.id, t]));
+    const localIds = new Set(local.map((t) => t.id));
+    const result: TodoMergeResult = { todos: [], added: 0, updated: 0, removed: 0, conflicts: [] };
+
+    if (mode === "replace") {
+      for (const t of incoming) {
+        if (!localIds.has(t.id)) result.added++;
+      }
+      for (const t of local) {
+        const other = incomingById.get(t.id);
+        if (!other) {
+          result.removed++;
+        } else if (!ProjectsImport.sameTodo(t, other)) {
+          result.updated++;
+        }
+      }
+      result.todos = incoming.map((t) => ({ ...t }));
+      return result;
+    }
+
+    for (const mine of local) {
+      const theirs = incomingById.get(mine.id);
+      if (!theirs || ProjectsImport.sameTodo(mine, theirs)) {
+        result.todos.push({ ...mine });
+        continue;
+      }
+
+      // Both sides have a different version of the same ToDo
+      const takeIncoming =
+        mode === "newest-wins" &&
+        new Date(theirs.updatedAt).getTime() > new Date(mine.updatedAt).getTime();
+      result.todos.push({ ...(takeIncoming ? theirs : mine) });
+      if (takeIncoming) result.updated++;
+      result.conflicts.push({
+        id: mine.id,
+        title: mine.title,
+        resolution: takeIncoming ? "incoming" : "local",
+      });
+    }
+
+    for (const theirs of incoming) {
+      if (localIds.has(theirs.id)) continue;
+      result.todos.push({ ...theirs });
+      result.added++;
+    }
+    return result;
+  }
+
+  /** Same content, ignoring timestamps */
+  private static sameTodo(a: ITodo, b: ITodo): boolean {
+    const strip = ({ createdAt, updatedAt, ...rest }: ITodo) => rest;
+    return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+  }
+
+  /** Fields whose value would change on update ("status: pending → active") */
+  static diff(
+    existing: Project,
+    incoming: IProject,
+    todoMerge: TodoMergeResult | null = null
+  ): string[] {
+    const changes: string[] = [];
+    const compare = (field: string, before: unknown, after: unknown) => {
+      if (after === undefined || after === null) return;
+      if (String(before) !== String(after)) changes.push(`${field}: ${before} → ${after}`);
+    };
+
+    compare("name", existing.name, incoming.name);
+    compare("description", existing.description, incoming.description);
+    compare("status", existing.status, incoming.status);
+    compare("role", existing.userRole, incoming.userRole);
+    if (incoming.startDate) {
+      compare(
+        "start date",
+        existing.startDate.toISOString().slice(0, 10),
+        Project.normalizeDate(incoming.startDate).toISOString().slice(0, 10)
+      );
+    }
+    if (incoming.finishDate) {
+      compare(
+        "finish date",
+        existing.finishDate.toISOString().slice(0, 10),
+        Project.normalizeDate(incoming.finishDate).toISOString().slice(0, 10)
+      );
+    }
+    compare("budget", existing.budget, incoming.budget);
+    compare("currency", existing.currency, incoming.currency);
+    compare("cost", existing.cost, incoming.cost);
+    compare("progress", existing.progress, incoming.progress);
+    compare("progress mode", existing.progressMode, incoming.progressMode);
+    compare("archived", existing.archived, incoming.archived);
+
+    if (Array.isArray(incoming.memberIds)) {
+      const before = [...existing.memberIds].sort().join();
+      const after = Array.from(new Set(incoming.memberIds)).sort().join();
+      if (before !== after) {
+        changes.push(`team: ${existing.memberIds.length} → ${new Set(incoming.memberIds).size} member(s)`);
+      }
+    }
+
+    if (todoMerge) {
+      const { added, updated, removed, conflicts } = todoMerge;
+      if (added || updated || removed) {
+        changes.push(`todos: ${added} added, ${updated} updated, ${removed} removed`);
+      }
+      for (const c of conflicts) {
+        const kept = c.resolution === "local" ? "local version kept" : "incoming version taken";
+        changes.push(`conflict on ToDo "${c.title}": ${kept}`);
+      }
+    }
+    return changes;
+  }
+
+  private static skip(name: string, reasons: string[]): ImportPlanEntry {
+    return {
+      action: "skip",
+      name,
+      data: null,
+      existing: null,
+      reasons,
+      overwrites: [],
+      todoMerge: null,
+    };
+  }
+}
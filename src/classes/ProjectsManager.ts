@@ -1,262 +1,1550 @@
-import { IProject, ITodo, Project, TodoStatus } from "./Project";
-
-type DetailsEls = {
-  root: HTMLElement;
-  // Project text nodes
-  nameTitle: HTMLElement | null; // [data-project-info="name"]
-  descriptionText: HTMLElement | null; // [data-project-info="description"] (si existe)
-  // Optional fields in details (si existen los data-attrs)
-  statusText: HTMLElement | null; // [data-project-info="status"]
-  roleText: HTMLElement | null; // [data-project-info="role"]
-  costText: HTMLElement | null; // [data-project-info="cost"]
-  finishDateText: HTMLElement | null; // [data-project-info="finishDate"]
-  progressText: HTMLElement | null; // [data-project-info="progress"]
-
-  // Edit UI
-  editBtn: HTMLElement | null; // button#edit-project-btn (lo añadiremos si no existe)
-  editModal: HTMLDialogElement | null; // dialog#edit-project-modal (lo añadiremos si no existe)
-  editForm: HTMLFormElement | null; // form#edit-project-form (lo añadiremos si no existe)
-
-  // Todos UI
-  todosContainer: HTMLElement | null; // #todos-list (lo añadiremos si no existe)
-  addTodoBtn: HTMLElement | null; // #add-todo-btn (ya tienes un icon add en ToDo header; lo hookearemos)
-  todoModal: HTMLDialogElement | null; // dialog#todo-modal (lo añadiremos)
-  todoForm: HTMLFormElement | null; // form#todo-form (lo añadiremos)
-};
+import {
+  ActivityAction,
+  CostCategory,
+  IChecklistItem,
+  ICostItem,
+  IProject,
+  ITodo,
+  Project,
+  TodoData,
+  TodoPriority,
+  TodoStatus,
+} from "./Project";
+import { ProjectRepository } from "./Repository";
+import { ModelFileStore } from "./ModelFileStore";
+import { IfcModelSource, IfcViewer } from "./IfcViewer";
+import { BcfArchive, BcfTopic, BcfVersion } from "./BcfArchive";
+import { ImportPlan, IProjectsExport, ProjectsImport, TodoMergeMode } from "./ProjectsImport";
+import { ProjectsSpreadsheet } from "./ProjectsSpreadsheet";
+import { User } from "./User";
+import { UsersManager } from "./UsersManager";
+import { Permission } from "./Permissions";
+import { CommandHistory } from "./CommandHistory";
+import { TodoDueFilter, TodoFilter, TodoQuery, TodoSort } from "./TodoFilter";
+import { Budget } from "./Budget";
+import { Dashboard, DashboardFilter } from "./Dashboard";
+import { ProjectFilter, ProjectGroup, ProjectQuery, ProjectSort } from "./ProjectFilter";
+import { DaySpan } from "./Schedule";
+import { Calendar } from "./Calendar";
+import { ICalendar } from "./ICalendar";
+import { Route, Router } from "./Router";
+import { ProjectCard } from "./ProjectCard";
+import { ProjectStore } from "./ProjectStore";
+import { DetailsEls, ProjectDetailsView } from "./ProjectDetailsView";
+import { EventBus } from "./EventBus";
+import { ProjectEvents, ProjectService } from "./ProjectService";
+
+/** Which projects the list shows */
+export type ProjectListView = "active" | "archived" | "trash";
+
+/** How the ToDo card lays out the ToDos */
+export type TodoView = "list" | "board";
 
 export class ProjectsManager {
-  list: Project[] = [];
+  // Projects, permissions, undo / redo and events (no DOM); the page follows its events
+  service: ProjectService;
   ui: HTMLElement;
+  private cards: Map<string, ProjectCard> = new Map();
 
-  // Active project (details page)
+  // Header + budget of the details page (follows the active project)
+  details: ProjectDetailsView = new ProjectDetailsView();
+
+  // Active project (details page), set by the router ("#/projects/:id")
   activeProjectId: string | null = null;
 
-  constructor(container: HTMLElement) {
-    this.ui = container;
+  // Hash router: cards, ToDo rows and closing the details go through the URL
+  router: Router | null = null;
+
+  // Current list tab (main list, archived, trash)
+  listView: ProjectListView = "active";
+
+  // Dashboard drill-down applied on top of the list tab (null = every project of the tab)
+  listFilter: DashboardFilter | null = null;
+
+  // Toolbar search / filter / sort / grouping (read from and written to the URL)
+  projectQuery: ProjectQuery = ProjectFilter.defaultQuery();
+
+  // Optional persistence backend (localStorage, IndexedDB, HTTP...)
+  repository: ProjectRepository | null;
+
+  // IFC files (bytes) + 3D viewer, created on first details open
+  modelStore: ModelFileStore;
+  viewer: IfcViewer | null = null;
+  private viewerLoading: Promise<void> = Promise.resolve();
 
-    // Default project (prototipo)
-    this.newProject({
-      name: "Default Project",
-      description: "This is just a default app project",
-      status: "pending",
-      userRole: "architect",
-      finishDate: new Date(),
+  // Team members directory (assignments are stored on projects / todos)
+  users: UsersManager | null;
+
+  // ToDo currently framed in the viewer (highlighted row)
+  focusedTodoId: string | null = null;
+
+  // Search / filter / sort of the ToDo list (survives re-renders and project switches)
+  todoQuery: TodoQuery = TodoFilter.defaultQuery();
+  todoView: TodoView = "list";
+
+  // ToDos ticked for bulk actions (active project only)
+  selectedTodoIds: Set<string> = new Set();
+
+  // Import waiting for confirmation in the preview dialog
+  private pendingImport: { data: IProjectsExport; sourceVersion: number; plan: ImportPlan } | null =
+    null;
+
+  constructor(
+    container: HTMLElement,
+    repository: ProjectRepository | null = null,
+    modelStore: ModelFileStore = new ModelFileStore(),
+    users: UsersManager | null = null
+  ) {
+    this.ui = container;
+    this.repository = repository;
+    this.modelStore = modelStore;
+    this.users = users;
+    this.service = new ProjectService(users);
+
+    this.store.onChange((change) => {
+      if (change.type === "added") this.mountCard(change.project);
+      else this.unmountCard(change.project.id);
     });
+    this.details.onEditCostItem = (item) => this.openCostItemModal(item);
+    this.details.onRemoveCostItem = (item) => this.removeCostItemFromActiveProject(item.id);
+    this.bindStorage();
+    this.bindViews();
 
     // Hook details page controls (edit + todos). Safe even if elements don't exist yet.
     this.bindDetailsPage();
+    this.bindImportPreview();
+    this.readListUrl();
+    this.bindListViews();
+    this.bindProjectToolbar();
+    this.bindTodoFilters();
+    this.bindTodoBulkActions();
   }
 
-  // ----------------- CRUD Projects -----------------
+  get list(): Project[] {
+    return this.store.list;
+  }
 
-  newProject(data: IProject) {
-    // Validation: name length >= 5
-    const normalizedName = (data.name ?? "").trim();
-    if (normalizedName.length < 5) {
-      throw new Error("Project name must be at least 5 characters long.");
+  // Projects collection and its rules; the cards follow it
+  get store(): ProjectStore {
+    return this.service.store;
+  }
+
+  // subscribe("todoChanged", ...) etc.; returns the unsubscribe function
+  get events(): EventBus<ProjectEvents> {
+    return this.service.events;
+  }
+
+  get history(): CommandHistory {
+    return this.service.history;
+  }
+
+  // ----------------- Persistence -----------------
+
+  /** Rehydrates stored projects; falls back to the default project when storage is empty */
+  async load() {
+    let stored: IProject[] = [];
+    if (this.repository) {
+      try {
+        stored = await this.repository.loadAll();
+      } catch (err) {
+        console.error("Projects could not be loaded from storage.", err);
+      }
     }
 
-    // Unique by name (case-insensitive) for creation
-    const nameInUse = this.list.some(
-      (p) => p.name.trim().toLowerCase() === normalizedName.toLowerCase()
-    );
-    if (nameInUse) {
-      throw new Error(`A project with the name "${normalizedName}" already exists`);
+    for (const data of stored) {
+      if (typeof data.id === "string" && this.getProject(data.id)) continue;
+      this.store.add(new Project(data));
+    }
+
+    if (!this.list.length) {
+      // Default project (prototipo)
+      this.newProject({
+        name: "Default Project",
+        description: "This is just a default app project",
+        status: "pending",
+        userRole: "architect",
+        finishDate: new Date(),
+      });
     }
+    this.renderList();
+    // Loading is not an undoable step
+    this.history.clear();
+  }
+
+  /** Saves a project snapshot (fire & forget, errors are only logged) */
+  private persist(project: Project) {
+    if (!this.repository) return;
+    this.repository.save(project.toJSON()).catch((err) => {
+      console.error(`Project "${project.name}" could not be saved.`, err);
+    });
+  }
+
+  private unpersist(id: string) {
+    if (!this.repository) return;
+    this.repository.remove(id).catch((err) => {
+      console.error(`Project ${id} could not be removed from storage.`, err);
+    });
+  }
+
+  /** Every published change is saved (trashed projects stay stored until purged) */
+  private bindStorage() {
+    const save = ({ project }: { project: Project }) => this.persist(project);
+    this.events.subscribe("projectCreated", save);
+    this.events.subscribe("projectUpdated", save);
+    this.events.subscribe("todoChanged", save);
+    this.events.subscribe("projectDeleted", ({ project, permanent }) => {
+      if (permanent) {
+        this.unpersist(project.id);
+      } else {
+        this.persist(project);
+      }
+    });
+    this.events.subscribe("imported", ({ created, updated }) => {
+      for (const project of [...created, ...updated]) this.persist(project);
+    });
+  }
+
+  // ----------------- Views -----------------
+
+  /**
+   * The list and the open details page re-render only on published changes
+   * (cards and the details header follow their project on their own).
+   */
+  private bindViews() {
+    const refreshDetails = (project: Project) => {
+      if (this.activeProjectId !== project.id) return;
+      if (project.isTrashed) {
+        this.leaveDetails();
+        return;
+      }
+      // Selected / focused ToDos may be gone (deleted, moved, undone)
+      const ids = new Set(project.todos.map((t) => t.id));
+      for (const id of this.selectedTodoIds) {
+        if (!ids.has(id)) this.selectedTodoIds.delete(id);
+      }
+      if (this.focusedTodoId && !ids.has(this.focusedTodoId)) this.unfocusTodo();
+
+      this.renderTodos(project);
+      this.renderModels(project);
+      this.renderMembers(project);
+      this.renderActivity(project);
+    };
+
+    // Status, dates, ToDos... can change what the list filters match
+    this.events.subscribe("projectCreated", () => this.renderList());
+    this.events.subscribe("projectUpdated", ({ project }) => {
+      refreshDetails(project);
+      this.renderList();
+    });
+    this.events.subscribe("projectDeleted", ({ project }) => {
+      if (this.activeProjectId === project.id) this.leaveDetails();
+      this.renderList();
+    });
+    this.events.subscribe("todoChanged", ({ project }) => {
+      refreshDetails(project);
+      this.renderList();
+    });
+    this.events.subscribe("imported", ({ updated }) => {
+      updated.forEach(refreshDetails);
+      this.renderList();
+    });
+  }
 
-    // Create
-    const project = new Project({ ...data, name: normalizedName });
+  // ----------------- CRUD Projects -----------------
 
-    // Card click => open details
-    project.ui.addEventListener("click", () => {
-      this.openDetails(project.id);
+  newProject(data: IProject) {
+    return this.service.newProject(data);
+  }
+
+  /** Renders the card of a project added to the store and binds its clicks */
+  private mountCard(project: Project) {
+    const card = new ProjectCard(project);
+    // Card click => card action (archive, delete...) or open details
+    card.ui.addEventListener("click", (e) => {
+      const action = (e.target as HTMLElement).closest<HTMLElement>("[data-card-action]");
+      if (action) {
+        this.runCardAction(project, action.dataset.cardAction ?? "");
+        return;
+      }
+      if (!project.isTrashed) this.navigate({ page: "project", projectId: project.id });
     });
 
     // Render card
-    this.ui.append(project.ui);
-    this.list.push(project);
+    this.ui.append(card.ui);
+    this.cards.set(project.id, card);
+  }
 
-    return project;
+  private unmountCard(projectId: string) {
+    this.cards.get(projectId)?.remove();
+    this.cards.delete(projectId);
   }
 
   getProject(id: string) {
-    return this.list.find((p) => p.id === id);
+    return this.store.get(id);
   }
 
   /** Find project by name (case-insensitive) */
   getProjectByName(name: string) {
-    const n = (name ?? "").trim().toLowerCase();
-    return this.list.find((p) => p.name.trim().toLowerCase() === n);
+    return this.store.getByName(name);
   }
 
+  /** Moves a project to the trash (restorable until purged) */
   deleteProject(id: string) {
-    const project = this.getProject(id);
+    this.service.deleteProject(id);
+  }
+
+  restoreProject(id: string) {
+    this.service.restoreProject(id);
+  }
+
+  archiveProject(id: string, archived: boolean = true) {
+    this.service.archiveProject(id, archived);
+    // Archived projects leave the main list, and the details page with it
+    if (archived && this.activeProjectId === id && this.getProject(id)?.archived) {
+      this.leaveDetails();
+    }
+  }
+
+  /** Permanently removes a trashed project and its IFC files (clears the undo history) */
+  purgeProject(id: string) {
+    const project = this.service.purgeProject(id);
     if (!project) return;
-    project.ui.remove();
-    this.list = this.list.filter((p) => p.id !== id);
+    for (const model of project.models) {
+      this.modelStore.remove(model.id).catch((err) => {
+        console.error(`IFC file "${model.name}" could not be removed.`, err);
+      });
+    }
+  }
+
+  /** Purges every trashed project the role is allowed to delete */
+  emptyTrash(): number {
+    const purgeable = this.list.filter((p) => p.isTrashed && this.can(p, "project:delete"));
+    for (const project of purgeable) this.purgeProject(project.id);
+    return purgeable.length;
+  }
+
+  private runCardAction(project: Project, action: string) {
+    try {
+      if (action === "archive") this.archiveProject(project.id, true);
+      if (action === "unarchive") this.archiveProject(project.id, false);
+      if (action === "delete") this.deleteProject(project.id);
+      if (action === "restore") this.restoreProject(project.id);
+      if (action === "purge") {
+        if (!confirm(`Delete "${project.name}" permanently? This cannot be undone.`)) return;
+        this.purgeProject(project.id);
+      }
+    } catch (err) {
+      alert(String(err));
+    }
+  }
+
+  // ----------------- Projects list -----------------
+
+  /** Projects shown by a list tab */
+  getProjectsInView(view: ProjectListView = this.listView): Project[] {
+    return this.list.filter((p) => {
+      if (view === "trash") return p.isTrashed;
+      if (view === "archived") return !p.isTrashed && p.archived;
+      return !p.isTrashed && !p.archived;
+    });
+  }
+
+  setListView(view: ProjectListView) {
+    this.listView = view;
+    this.renderList();
+    this.writeListUrl();
+  }
+
+  setProjectQuery(query: Partial<ProjectQuery>) {
+    this.projectQuery = { ...this.projectQuery, ...query };
+    this.renderList();
+    this.writeListUrl();
+  }
+
+  /** Dashboard drill-down: main tab narrowed to the matching projects */
+  setListFilter(filter: DashboardFilter | null) {
+    this.listFilter = filter;
+    if (filter) this.listView = "active";
+    this.renderList();
+  }
+
+  /** Shows the cards of the current tab (filtered, sorted, grouped) and refreshes the counters */
+  private renderList() {
+    const filter = this.listFilter;
+    const today = new Date();
+    const inView = this.getProjectsInView().filter(
+      (p) => !filter || Dashboard.matches(p, filter, today)
+    );
+    const shown = ProjectFilter.apply(inView, this.projectQuery);
+    const visible = new Set(shown);
+    for (const card of this.cards.values()) {
+      card.ui.hidden = !visible.has(card.project);
+    }
+
+    // Re-append in display order; hidden cards simply stay where they are
+    this.ui.querySelectorAll(".projects-group-header").forEach((el) => el.remove());
+    for (const section of ProjectFilter.groups(shown, this.projectQuery.group)) {
+      if (section.label) {
+        const header = document.createElement("h4");
+        header.className = "projects-group-header";
+        header.textContent = `${section.label} (${section.projects.length})`;
+        this.ui.append(header);
+      }
+      for (const project of section.projects) {
+        const card = this.cards.get(project.id);
+        if (card) this.ui.append(card.ui);
+      }
+    }
+    this.renderProjectToolbar(shown.length, inView.length);
+
+    document.querySelectorAll<HTMLElement>("[data-list-view]").forEach((tab) => {
+      const view = tab.dataset.listView as ProjectListView;
+      tab.classList.toggle("active", view === this.listView);
+      const count = tab.querySelector("[data-view-count]") as HTMLElement | null;
+      if (count) count.textContent = String(this.getProjectsInView(view).length);
+    });
+
+    const emptyTrashBtn = document.getElementById("empty-trash-btn") as HTMLElement | null;
+    if (emptyTrashBtn) emptyTrashBtn.hidden = this.listView !== "trash" || !visible.size;
+
+    const filterBar = document.getElementById("projects-filter") as HTMLElement | null;
+    if (filterBar) {
+      filterBar.hidden = !filter;
+      const label = filterBar.querySelector("[data-filter-label]") as HTMLElement | null;
+      if (label) label.textContent = filter ? Dashboard.describe(filter) : "";
+    }
 
-    if (this.activeProjectId === id) {
-      this.activeProjectId = null;
+    const empty = document.getElementById("projects-empty") as HTMLElement | null;
+    if (empty) {
+      empty.hidden = visible.size > 0;
+      const narrowed = !!filter || ProjectFilter.isFiltered(this.projectQuery);
+      empty.textContent = narrowed
+        ? "No projects match this filter."
+        : this.listView === "trash"
+          ? "The trash is empty."
+          : this.listView === "archived"
+            ? "No archived projects."
+            : "No projects yet.";
     }
   }
 
-  /** Update an existing project in-place and refresh card + details if active */
+  /** Toolbar controls follow the query (it may come from the URL) */
+  private renderProjectToolbar(shown: number, total: number) {
+    const q = this.projectQuery;
+    const setValue = (id: string, value: string) => {
+      const el = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+      if (el && el.value !== value) el.value = value;
+    };
+    setValue("project-search", q.text);
+    setValue("project-status-filter", q.status);
+    setValue("project-role-filter", q.role);
+    setValue("project-finish-from", q.finishFrom);
+    setValue("project-finish-to", q.finishTo);
+    setValue("project-cost-min", q.costMin === null ? "" : String(q.costMin));
+    setValue("project-cost-max", q.costMax === null ? "" : String(q.costMax));
+    setValue("project-sort", q.sort);
+    setValue("project-group", q.group);
+
+    const results = document.getElementById("project-results") as HTMLElement | null;
+    if (results) {
+      results.textContent = ProjectFilter.isFiltered(q) ? `${shown} of ${total}` : "";
+    }
+    const resetBtn = document.getElementById("project-filters-reset") as HTMLElement | null;
+    if (resetBtn) resetBtn.hidden = !ProjectFilter.isFiltered(q);
+  }
+
+  private bindProjectToolbar() {
+    const onInput = (id: string, read: (value: string) => Partial<ProjectQuery>) => {
+      const el = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+      const event = el instanceof HTMLInputElement && el.type === "search" ? "input" : "change";
+      el?.addEventListener(event, () => this.setProjectQuery(read(el.value)));
+    };
+    const amount = (value: string) => {
+      if (!value.trim()) return null;
+      const n = Number(value);
+      return Number.isFinite(n) ? n : null;
+    };
+
+    onInput("project-search", (text) => ({ text }));
+    onInput("project-status-filter", (status) => ({ status: status as ProjectQuery["status"] }));
+    onInput("project-role-filter", (role) => ({ role: role as ProjectQuery["role"] }));
+    onInput("project-finish-from", (finishFrom) => ({ finishFrom }));
+    onInput("project-finish-to", (finishTo) => ({ finishTo }));
+    onInput("project-cost-min", (value) => ({ costMin: amount(value) }));
+    onInput("project-cost-max", (value) => ({ costMax: amount(value) }));
+    onInput("project-sort", (sort) => ({ sort: sort as ProjectSort }));
+    onInput("project-group", (group) => ({ group: group as ProjectGroup }));
+
+    const resetBtn = document.getElementById("project-filters-reset") as HTMLElement | null;
+    resetBtn?.addEventListener("click", () => {
+      // Sort and grouping are a view preference, not a filter
+      const { sort, group } = this.projectQuery;
+      this.projectQuery = { ...ProjectFilter.defaultQuery(), sort, group };
+      this.renderList();
+      this.writeListUrl();
+    });
+  }
+
+  /** Shared links: "?view=archived&q=tower&status=active&sort=cost-desc" */
+  private readListUrl() {
+    const params = new URLSearchParams(window.location.search);
+    this.projectQuery = ProjectFilter.fromSearchParams(params);
+    const view = params.get("view");
+    if (view === "archived" || view === "trash") this.listView = view;
+  }
+
+  private writeListUrl() {
+    const params = ProjectFilter.toSearchParams(this.projectQuery);
+    if (this.listView !== "active") params.set("view", this.listView);
+    const search = params.toString();
+    const { pathname, hash } = window.location;
+    window.history.replaceState(window.history.state, "", `${pathname}${search ? `?${search}` : ""}${hash}`);
+  }
+
+  private bindListViews() {
+    document.querySelectorAll<HTMLElement>("[data-list-view]").forEach((tab) => {
+      tab.addEventListener("click", () => {
+        const view = tab.dataset.listView;
+        if (view === "active" || view === "archived" || view === "trash") this.setListView(view);
+      });
+    });
+
+    const clearFilterBtn = document.getElementById("clear-projects-filter-btn") as HTMLElement | null;
+    clearFilterBtn?.addEventListener("click", () => this.setListFilter(null));
+
+    const emptyTrashBtn = document.getElementById("empty-trash-btn") as HTMLElement | null;
+    emptyTrashBtn?.addEventListener("click", () => {
+      if (!confirm("Delete every project in the trash permanently? This cannot be undone.")) return;
+      const total = this.getProjectsInView("trash").length;
+      const purged = this.emptyTrash();
+      if (purged < total) {
+        alert(`${total - purged} project(s) were kept: your role is not allowed to delete them.`);
+      }
+    });
+  }
+
+  /** Update an existing project in-place (card + details follow the change) */
   updateProject(id: string, data: Partial<IProject>) {
-    const project = this.getProject(id);
+    this.service.updateProject(id, data);
+  }
+
+  // ----------------- Undo / Redo -----------------
+
+  /** Reverts the last step; returns its description (null if nothing to undo) */
+  undo(): string | null {
+    return this.service.undo();
+  }
+
+  redo(): string | null {
+    return this.service.redo();
+  }
+
+  // ----------------- Permissions -----------------
+
+  /** Permissions are checked against the project's role (the current user's role in it) */
+  can(project: Project, permission: Permission): boolean {
+    return this.service.can(project, permission);
+  }
+
+  // ----------------- Details Page -----------------
+
+  /**
+   * Shows a project, and frames one of its ToDos when `todoId` is given.
+   * Called by the router; false = unknown (or trashed) project / ToDo.
+   */
+  openDetails(projectId: string, todoId: string | null = null): boolean {
+    const project = this.getProject(projectId);
+    if (!project || project.isTrashed) return false;
+    if (todoId && !project.todos.some((t) => t.id === todoId)) return false;
+
+    // Moving between a project and one of its ToDos keeps the loaded models
+    if (this.activeProjectId !== project.id) {
+      this.selectedTodoIds.clear();
+      this.activeProjectId = project.id;
+      this.focusedTodoId = null;
+      this.details.show(project);
+      this.renderTodos(project);
+      this.renderModels(project);
+      this.renderMembers(project);
+      this.renderActivity(project);
+      this.viewerLoading = this.loadViewer(project);
+    }
+
+    if (todoId) {
+      this.focusTodo(todoId);
+    } else if (this.focusedTodoId) {
+      this.focusedTodoId = null;
+      this.renderTodos(project);
+    }
+    return true;
+  }
+
+  /** Forgets the active project (the router is showing another page) */
+  closeDetails() {
+    this.details.show(null);
+    this.activeProjectId = null;
+    this.focusedTodoId = null;
+    this.selectedTodoIds.clear();
+  }
+
+  /** Back to the projects list (after the active project is archived / trashed) */
+  private leaveDetails() {
+    this.closeDetails();
+    this.navigate({ page: "projects" }, true);
+  }
+
+  private navigate(route: Route, replace: boolean = false) {
+    this.router?.go(route, replace);
+  }
+
+  /** Row click: the ToDo link frames it ("#/projects/:id/todos/:todoId") */
+  private openTodo(todoId: string) {
+    const project = this.getActiveProject();
     if (!project) return;
+    this.navigate({ page: "todo", projectId: project.id, todoId }, true);
+  }
+
+  /** Drops the ToDo focus and its link (the ToDo was deleted or moved away) */
+  private unfocusTodo() {
+    this.focusedTodoId = null;
+    const project = this.getActiveProject();
+    if (project) this.navigate({ page: "project", projectId: project.id }, true);
+  }
+
+  // ----------------- ToDos -----------------
 
-    // If name is being changed, validate length and uniqueness
-    if (typeof data.name === "string") {
-      const newName = data.name.trim();
-      if (newName.length < 5) {
-        throw new Error("Project name must be at least 5 characters long.");
+  /** Adds a todo to active project and re-renders list */
+  addTodoToActiveProject(title: string, status: TodoStatus, extra: TodoData = {}) {
+    if (!this.activeProjectId) return;
+    this.service.addTodo(this.activeProjectId, title, status, extra);
+  }
+
+  updateTodoInActiveProject(todoId: string, data: TodoData) {
+    if (!this.activeProjectId) return;
+    this.service.updateTodo(this.activeProjectId, todoId, data);
+  }
+
+  deleteTodoFromActiveProject(todoId: string) {
+    if (!this.activeProjectId) return;
+    this.service.deleteTodo(this.activeProjectId, todoId);
+  }
+
+  private renderTodos(project: Project) {
+    const els = ProjectDetailsView.elements();
+    if (!els || !els.todosContainer) return;
+
+    els.todosContainer.innerHTML = "";
+    this.renderTodoToolbar(project);
+    this.renderBulkBar(project);
+
+    const isBoard = this.todoView === "board" && !!els.todosBoard;
+    els.todosContainer.hidden = isBoard;
+    if (els.todosBoard) els.todosBoard.hidden = !isBoard;
+    if (isBoard) {
+      this.renderTodoBoard(project);
+      return;
+    }
+
+    const todos = TodoFilter.apply(project.todos, this.todoQuery);
+    if (!todos.length) {
+      const empty = document.createElement("div");
+      empty.className = "todo-empty";
+      empty.textContent = project.todos.length
+        ? "No ToDos match the current search or filters."
+        : "No ToDos yet.";
+      els.todosContainer.append(empty);
+      return;
+    }
+
+    for (const todo of todos) {
+      const item = document.createElement("div");
+      item.className = "todo-item";
+      item.dataset.todoId = todo.id;
+      item.dataset.todoStatus = todo.status;
+
+      // Visual status via CSS classes (we set a class to drive bg color)
+      item.classList.add(`todo-${todo.status}`);
+      if (Project.isOverdue(todo)) item.classList.add("todo-overdue");
+      if (todo.id === this.focusedTodoId) item.classList.add("todo-focused");
+
+      item.innerHTML = `
+        <div class="todo-row">
+          <div class="todo-left">
+            <input type="checkbox" class="todo-select" aria-label="Select ToDo" />
+            <span class="material-icons-round todo-icon">checklist</span>
+            <p class="todo-title"></p>
+            <span class="todo-elements muted" hidden>
+              <span class="material-icons-round">view_in_ar</span>
+              <span class="todo-elements-count"></span>
+            </span>
+            <span class="todo-assignee member-avatar" hidden></span>
+          </div>
+          <div class="todo-right">
+            <select class="todo-status-select" aria-label="ToDo status">
+              <option value="pending">Pending</option>
+              <option value="in_progress">In progress</option>
+              <option value="done">Done</option>
+              <option value="blocked">Blocked</option>
+            </select>
+            <span class="material-icons-round todo-edit" title="Edit">edit</span>
+            <span class="material-icons-round todo-delete" title="Delete">delete</span>
+          </div>
+        </div>
+      `;
+      item.append(this.createTodoMeta(todo));
+
+      const titleEl = item.querySelector(".todo-title") as HTMLElement | null;
+      if (titleEl) {
+        titleEl.textContent = todo.title;
+        if (todo.description) titleEl.title = todo.description;
       }
-      const nameInUse = this.list.some(
-        (p) =>
-          p.id !== project.id &&
-          p.name.trim().toLowerCase() === newName.toLowerCase()
-      );
-      if (nameInUse) {
-        throw new Error(`A project with the name "${newName}" already exists`);
+
+      const linked = todo.elements?.length ?? 0;
+      const elementsEl = item.querySelector(".todo-elements") as HTMLElement | null;
+      const elementsCount = item.querySelector(".todo-elements-count") as HTMLElement | null;
+      if (elementsEl && elementsCount && (linked || todo.viewpoint)) {
+        elementsEl.hidden = false;
+        elementsEl.title = "Linked model elements";
+        elementsCount.textContent = String(linked);
+      }
+
+      const assignee = todo.assigneeId ? this.users?.getUser(todo.assigneeId) : undefined;
+      const assigneeEl = item.querySelector(".todo-assignee") as HTMLElement | null;
+      if (assigneeEl && assignee) {
+        assigneeEl.hidden = false;
+        assigneeEl.title = `Assigned to ${assignee.name}`;
+        assigneeEl.textContent = Project.getProjectInitials(assignee.name);
+        assigneeEl.style.setProperty("--project-icon-bg", assignee.iconBg);
+      }
+
+      // Row click => highlight & frame linked elements (select / edit keep their own behavior)
+      item.addEventListener("click", (e) => {
+        const target = e.target as HTMLElement;
+        if (target.closest(".todo-select, .todo-status-select, .todo-edit, .todo-delete")) return;
+        this.openTodo(todo.id);
+      });
+
+      const select = item.querySelector(".todo-status-select") as HTMLSelectElement | null;
+      if (select) {
+        select.value = todo.status;
+        select.disabled = !this.can(project, "todo:status");
+        select.addEventListener("change", () => {
+          const value = select.value as TodoStatus;
+          try {
+            this.updateTodoInActiveProject(todo.id, { status: value });
+          } catch (err) {
+            select.value = todo.status;
+            alert(String(err));
+          }
+        });
+      }
+
+      const editBtn = item.querySelector(".todo-edit") as HTMLElement | null;
+      if (editBtn) {
+        editBtn.hidden = !this.can(project, "todo:edit");
+        editBtn.addEventListener("click", () => {
+          // open todo modal in edit mode
+          this.openTodoModal({ mode: "edit", todo });
+        });
+      }
+
+      const deleteBtn = item.querySelector(".todo-delete") as HTMLElement | null;
+      if (deleteBtn) {
+        deleteBtn.hidden = !this.can(project, "todo:delete");
+        deleteBtn.addEventListener("click", () => {
+          if (!confirm(`Delete ToDo "${todo.title}"?`)) return;
+          try {
+            this.deleteTodoFromActiveProject(todo.id);
+          } catch (err) {
+            alert(String(err));
+          }
+        });
+      }
+
+      const checkbox = item.querySelector(".todo-select") as HTMLInputElement | null;
+      if (checkbox) {
+        checkbox.checked = this.selectedTodoIds.has(todo.id);
+        checkbox.addEventListener("change", () => {
+          if (checkbox.checked) {
+            this.selectedTodoIds.add(todo.id);
+          } else {
+            this.selectedTodoIds.delete(todo.id);
+          }
+          this.renderBulkBar(project);
+        });
+      }
+
+      els.todosContainer.append(item);
+    }
+  }
+
+  // ----------------- Bulk ToDo actions -----------------
+
+  bulkUpdateTodoStatus(todoIds: string[], status: TodoStatus) {
+    if (!this.activeProjectId) return;
+    this.service.bulkUpdateTodoStatus(this.activeProjectId, todoIds, status);
+  }
+
+  bulkDeleteTodos(todoIds: string[]) {
+    if (!this.activeProjectId) return;
+    this.service.bulkDeleteTodos(this.activeProjectId, todoIds);
+  }
+
+  /** Moves (same ids, removed here) or copies (new ids) ToDos to another project */
+  transferTodos(todoIds: string[], targetProjectId: string, mode: "move" | "copy") {
+    if (!this.activeProjectId) return;
+    this.service.transferTodos(this.activeProjectId, todoIds, targetProjectId, mode);
+  }
+
+  /** Selection counter + actions; hidden while nothing is selected */
+  private renderBulkBar(project: Project) {
+    // Deleted / undone ToDos and those the filters hide leave the selection,
+    // so bulk actions never touch ToDos the user can't see
+    const shown = TodoFilter.apply(project.todos, this.todoQuery);
+    const ids = new Set(shown.map((t) => t.id));
+    for (const id of this.selectedTodoIds) if (!ids.has(id)) this.selectedTodoIds.delete(id);
+
+    const selectAll = document.getElementById("todo-select-all") as HTMLInputElement | null;
+    if (selectAll) {
+      const selected = shown.filter((t) => this.selectedTodoIds.has(t.id)).length;
+      selectAll.hidden = this.todoView === "board";
+      selectAll.disabled = !shown.length;
+      selectAll.checked = !!shown.length && selected === shown.length;
+      selectAll.indeterminate = selected > 0 && selected < shown.length;
+    }
+
+    const bar = document.getElementById("todo-bulk-bar") as HTMLElement | null;
+    if (!bar) return;
+    const count = this.selectedTodoIds.size;
+    bar.hidden = count === 0;
+    if (!count) return;
+
+    const counter = bar.querySelector("[data-bulk-count]") as HTMLElement | null;
+    if (counter) counter.textContent = `${count} selected`;
+
+    const statusSelect = document.getElementById("bulk-status") as HTMLSelectElement | null;
+    if (statusSelect) {
+      statusSelect.value = "";
+      statusSelect.disabled = !this.can(project, "todo:status");
+    }
+
+    const targetSelect = document.getElementById("bulk-target") as HTMLSelectElement | null;
+    if (targetSelect) {
+      const previous = targetSelect.value;
+      targetSelect.innerHTML = `<option value="">Other project...</option>`;
+      for (const other of this.getProjectsInView("active")) {
+        if (other.id === project.id) continue;
+        const option = document.createElement("option");
+        option.value = other.id;
+        option.textContent = other.name;
+        targetSelect.append(option);
       }
+      targetSelect.value = this.getProject(previous) ? previous : "";
     }
 
-    project.update(data);
+    const moveBtn = document.getElementById("bulk-move-btn") as HTMLButtonElement | null;
+    if (moveBtn) moveBtn.disabled = !this.can(project, "todo:delete");
+    const deleteBtn = document.getElementById("bulk-delete-btn") as HTMLButtonElement | null;
+    if (deleteBtn) deleteBtn.disabled = !this.can(project, "todo:delete");
+  }
+
+  private bindTodoBulkActions() {
+    const run = (action: (ids: string[]) => void) => {
+      if (!this.getActiveProject() || !this.selectedTodoIds.size) return;
+      try {
+        action([...this.selectedTodoIds]);
+      } catch (err) {
+        alert(String(err));
+      }
+    };
 
-    // If active, refresh details UI
-    if (this.activeProjectId === project.id) {
-      this.renderDetails(project);
+    const selectAll = document.getElementById("todo-select-all") as HTMLInputElement | null;
+    selectAll?.addEventListener("change", () => {
+      const project = this.getActiveProject();
+      if (!project) return;
+      for (const todo of TodoFilter.apply(project.todos, this.todoQuery)) {
+        if (selectAll.checked) {
+          this.selectedTodoIds.add(todo.id);
+        } else {
+          this.selectedTodoIds.delete(todo.id);
+        }
+      }
       this.renderTodos(project);
+    });
+
+    const statusSelect = document.getElementById("bulk-status") as HTMLSelectElement | null;
+    statusSelect?.addEventListener("change", () => {
+      const status = statusSelect.value as TodoStatus | "";
+      if (!status) return;
+      run((ids) => this.bulkUpdateTodoStatus(ids, status));
+      statusSelect.value = "";
+    });
+
+    const targetSelect = document.getElementById("bulk-target") as HTMLSelectElement | null;
+    const transfer = (mode: "move" | "copy") =>
+      run((ids) => {
+        if (!targetSelect?.value) throw new Error("Choose the project to move or copy the ToDos to.");
+        this.transferTodos(ids, targetSelect.value, mode);
+      });
+    document.getElementById("bulk-move-btn")?.addEventListener("click", () => transfer("move"));
+    document.getElementById("bulk-copy-btn")?.addEventListener("click", () => transfer("copy"));
+
+    document.getElementById("bulk-delete-btn")?.addEventListener("click", () => {
+      run((ids) => {
+        if (!confirm(`Delete ${ids.length} ToDo(s)?`)) return;
+        this.bulkDeleteTodos(ids);
+      });
+    });
+
+    document.getElementById("bulk-clear-btn")?.addEventListener("click", () => {
+      const project = this.getActiveProject();
+      this.selectedTodoIds.clear();
+      if (project) this.renderTodos(project);
+    });
+  }
+
+  /**
+   * Board drag & drop. Changing the column needs todo:status,
+   * reordering inside a column needs todo:edit.
+   */
+  moveTodoInActiveProject(todoId: string, status: TodoStatus, beforeId: string | null = null) {
+    if (!this.activeProjectId) return;
+    this.service.moveTodo(this.activeProjectId, todoId, status, beforeId);
+  }
+
+  setTodoView(view: TodoView) {
+    this.todoView = view;
+    const project = this.getActiveProject();
+    if (project) this.renderTodos(project);
+  }
+
+  /** Columns per status (filtered by the current search / assignee / status chip) */
+  private renderTodoBoard(project: Project) {
+    const els = ProjectDetailsView.elements();
+    if (!els || !els.todosBoard) return;
+    const board = els.todosBoard;
+    board.innerHTML = "";
+
+    const todos = TodoFilter.apply(project.todos, { ...this.todoQuery, status: "all" });
+    const columns = TodoFilter.columns(todos);
+    const canMove = this.can(project, "todo:status") || this.can(project, "todo:edit");
+
+    for (const status of TodoFilter.STATUSES) {
+      if (this.todoQuery.status !== "all" && this.todoQuery.status !== status) continue;
+
+      const column = document.createElement("div");
+      column.className = "board-column";
+      column.dataset.boardStatus = status;
+      column.innerHTML = `
+        <div class="board-column-header">
+          <span></span>
+          <span class="muted"></span>
+        </div>
+      `;
+      const [label, count] = Array.from(column.querySelectorAll(".board-column-header span"));
+      label.textContent = TodoFilter.STATUS_LABELS[status];
+      count.textContent = String(columns[status].length);
+
+      for (const todo of columns[status]) {
+        column.append(this.createBoardCard(project, todo, canMove));
+      }
+
+      column.addEventListener("dragover", (e) => {
+        if (!e.dataTransfer?.types.includes("text/plain")) return;
+        e.preventDefault();
+        column.classList.add("drag-over");
+      });
+      column.addEventListener("dragleave", (e) => {
+        if (!column.contains(e.relatedTarget as Node | null)) column.classList.remove("drag-over");
+      });
+      column.addEventListener("drop", (e) => {
+        e.preventDefault();
+        column.classList.remove("drag-over");
+        const todoId = e.dataTransfer?.getData("text/plain");
+        if (!todoId) return;
+
+        // Dropped above the middle of a card => goes before it
+        const cards = Array.from(column.querySelectorAll<HTMLElement>(".board-card")).filter(
+          (c) => c.dataset.todoId !== todoId
+        );
+        const before = cards.find((c) => {
+          const rect = c.getBoundingClientRect();
+          return e.clientY < rect.top + rect.height / 2;
+        });
+
+        try {
+          this.moveTodoInActiveProject(todoId, status, before?.dataset.todoId ?? null);
+        } catch (err) {
+          alert(String(err));
+        }
+      });
+
+      board.append(column);
+    }
+  }
+
+  private createBoardCard(project: Project, todo: ITodo, draggable: boolean): HTMLElement {
+    const card = document.createElement("div");
+    card.className = `board-card todo-${todo.status}`;
+    card.dataset.todoId = todo.id;
+    card.draggable = draggable;
+    if (Project.isOverdue(todo)) card.classList.add("todo-overdue");
+    if (todo.id === this.focusedTodoId) card.classList.add("todo-focused");
+
+    card.innerHTML = `
+      <div class="board-card-main">
+        <p class="board-card-title"></p>
+      </div>
+      <span class="todo-assignee member-avatar" hidden></span>
+    `;
+    const titleEl = card.querySelector(".board-card-title") as HTMLElement | null;
+    if (titleEl) {
+      titleEl.textContent = todo.title;
+      if (todo.description) titleEl.title = todo.description;
+    }
+    card.querySelector(".board-card-main")?.append(this.createTodoMeta(todo));
+
+    const assignee = todo.assigneeId ? this.users?.getUser(todo.assigneeId) : undefined;
+    const assigneeEl = card.querySelector(".todo-assignee") as HTMLElement | null;
+    if (assigneeEl && assignee) {
+      assigneeEl.hidden = false;
+      assigneeEl.title = `Assigned to ${assignee.name}`;
+      assigneeEl.textContent = Project.getProjectInitials(assignee.name);
+      assigneeEl.style.setProperty("--project-icon-bg", assignee.iconBg);
+    }
+
+    card.addEventListener("dragstart", (e) => {
+      e.dataTransfer?.setData("text/plain", todo.id);
+      if (e.dataTransfer) e.dataTransfer.effectAllowed = "move";
+      card.classList.add("dragging");
+    });
+    card.addEventListener("dragend", () => card.classList.remove("dragging"));
+
+    card.addEventListener("click", () => this.openTodo(todo.id));
+    card.addEventListener("dblclick", () => {
+      if (this.can(project, "todo:edit")) this.openTodoModal({ mode: "edit", todo });
+    });
+    return card;
+  }
+
+  /** Blocked / overdue flags, due date, priority, checklist progress and tags */
+  private createTodoMeta(todo: ITodo): HTMLElement {
+    const meta = document.createElement("div");
+    meta.className = "todo-meta";
+
+    const badge = (icon: string, text: string, variant = "") => {
+      const el = document.createElement("span");
+      el.className = `todo-badge${variant ? ` todo-badge-${variant}` : ""}`;
+      el.innerHTML = `<span class="material-icons-round"></span><span></span>`;
+      const [iconEl, textEl] = Array.from(el.children) as HTMLElement[];
+      iconEl.textContent = icon;
+      textEl.textContent = text;
+      meta.append(el);
+      return el;
+    };
+
+    if (todo.status === "blocked") badge("block", "Blocked", "blocked");
+    if (Project.isOverdue(todo)) {
+      badge("schedule", `Overdue · ${todo.dueDate}`, "overdue");
+    } else if (todo.dueDate) {
+      badge("event", todo.dueDate).title = "Due date";
+    }
+    if (todo.priority === "high" || todo.priority === "critical") {
+      const label = todo.priority === "high" ? "High" : "Critical";
+      badge("priority_high", label, todo.priority);
+    }
+    if (todo.checklist?.length) {
+      const done = todo.checklist.filter((i) => i.done).length;
+      badge("checklist", `${done}/${todo.checklist.length}`).title = "Checklist";
+    }
+    if (todo.milestone) badge("flag", "Milestone");
+    if (todo.startDate && todo.endDate) {
+      badge("date_range", `${todo.startDate} → ${todo.endDate}`).title = "Planned";
+    }
+    if (todo.dependsOn?.length) {
+      const titles = todo.dependsOn
+        .map((id) => this.getActiveProject()?.todos.find((t) => t.id === id)?.title)
+        .filter(Boolean);
+      badge("account_tree", String(todo.dependsOn.length)).title = `Depends on: ${titles.join(", ")}`;
+    }
+    if (todo.weight !== undefined) badge("donut_large", `×${todo.weight}`).title = "Progress weight";
+    for (const tag of todo.tags ?? []) badge("sell", tag);
+
+    return meta;
+  }
+
+  setTodoQuery(query: Partial<TodoQuery>) {
+    this.todoQuery = { ...this.todoQuery, ...query };
+    const project = this.getActiveProject();
+    if (project) this.renderTodos(project);
+  }
+
+  /** Status counters, active filter chip and assignee options of the ToDo card header */
+  private renderTodoToolbar(project: Project) {
+    const counts = TodoFilter.countByStatus(project.todos);
+    document.querySelectorAll<HTMLElement>("[data-todo-status-filter]").forEach((chip) => {
+      const status = chip.dataset.todoStatusFilter as TodoQuery["status"];
+      chip.classList.toggle("active", status === this.todoQuery.status);
+      const count = chip.querySelector("[data-todo-count]") as HTMLElement | null;
+      if (count) {
+        count.textContent = String(status === "all" ? project.todos.length : counts[status] ?? 0);
+      }
+    });
+
+    const assigneeSelect = document.getElementById("todo-assignee-filter") as HTMLSelectElement | null;
+    if (assigneeSelect) {
+      // Members plus anyone still assigned to a ToDo of this project
+      const ids = new Set(project.memberIds);
+      for (const todo of project.todos) if (todo.assigneeId) ids.add(todo.assigneeId);
+      const users = [...ids].map((id) => this.users?.getUser(id)).filter((u): u is User => !!u);
+
+      assigneeSelect.innerHTML = `
+        <option value="all">Anyone</option>
+        <option value="unassigned">Unassigned</option>
+      `;
+      for (const user of users) {
+        const option = document.createElement("option");
+        option.value = user.id;
+        option.textContent = user.name;
+        assigneeSelect.append(option);
+      }
+
+      // Another project may not know the filtered user
+      const known = ["all", "unassigned", ...users.map((u) => u.id)];
+      if (!known.includes(this.todoQuery.assignee)) this.todoQuery.assignee = "all";
+      assigneeSelect.value = this.todoQuery.assignee;
+    }
+
+    const dueSelect = document.getElementById("todo-due-filter") as HTMLSelectElement | null;
+    if (dueSelect) dueSelect.value = this.todoQuery.due;
+
+    const sortSelect = document.getElementById("todo-sort") as HTMLSelectElement | null;
+    if (sortSelect) {
+      sortSelect.value = this.todoQuery.sort;
+      // The board is always in rank order
+      sortSelect.disabled = this.todoView === "board";
+    }
+
+    document.querySelectorAll<HTMLElement>("[data-todo-view]").forEach((btn) => {
+      btn.classList.toggle("active", btn.dataset.todoView === this.todoView);
+    });
+
+    const search = document.getElementById("todo-search") as HTMLInputElement | null;
+    if (search && search.value !== this.todoQuery.text) search.value = this.todoQuery.text;
+  }
+
+  private bindTodoFilters() {
+    const search = document.getElementById("todo-search") as HTMLInputElement | null;
+    search?.addEventListener("input", () => this.setTodoQuery({ text: search.value }));
+
+    document.querySelectorAll<HTMLElement>("[data-todo-status-filter]").forEach((chip) => {
+      chip.addEventListener("click", () => {
+        const status = chip.dataset.todoStatusFilter as TodoQuery["status"];
+        this.setTodoQuery({ status });
+      });
+    });
+
+    const assigneeSelect = document.getElementById("todo-assignee-filter") as HTMLSelectElement | null;
+    assigneeSelect?.addEventListener("change", () => {
+      this.setTodoQuery({ assignee: assigneeSelect.value });
+    });
+
+    const dueSelect = document.getElementById("todo-due-filter") as HTMLSelectElement | null;
+    dueSelect?.addEventListener("change", () => {
+      this.setTodoQuery({ due: dueSelect.value as TodoDueFilter });
+    });
+
+    const sortSelect = document.getElementById("todo-sort") as HTMLSelectElement | null;
+    sortSelect?.addEventListener("change", () => {
+      this.setTodoQuery({ sort: sortSelect.value as TodoSort });
+    });
+
+    document.querySelectorAll<HTMLElement>("[data-todo-view]").forEach((btn) => {
+      btn.addEventListener("click", () => {
+        const view = btn.dataset.todoView;
+        if (view === "list" || view === "board") this.setTodoView(view);
+      });
+    });
+  }
+
+  // ----------------- Budget -----------------
+
+  addCostItemToActiveProject(data: Omit<ICostItem, "id">) {
+    if (!this.activeProjectId) return;
+    this.service.addCostItem(this.activeProjectId, data);
+  }
+
+  updateCostItemInActiveProject(itemId: string, data: Omit<ICostItem, "id">) {
+    if (!this.activeProjectId) return;
+    this.service.updateCostItem(this.activeProjectId, itemId, data);
+  }
+
+  removeCostItemFromActiveProject(itemId: string) {
+    if (!this.activeProjectId) return;
+    this.service.removeCostItem(this.activeProjectId, itemId);
+  }
+
+  private openCostItemModal(item: ICostItem | null) {
+    const els = ProjectDetailsView.elements();
+    if (!els || !els.costItemModal || !els.costItemForm) return;
+    const form = els.costItemForm;
+    const field = <T extends HTMLElement>(name: string) =>
+      form.querySelector(`[name='${name}']`) as T | null;
+
+    const title = form.querySelector("[data-cost-modal-title]") as HTMLElement | null;
+    if (title) title.textContent = item ? "Edit cost item" : "New cost item";
+    const id = field<HTMLInputElement>("costItemId");
+    if (id) id.value = item?.id ?? "";
+    const description = field<HTMLInputElement>("description");
+    if (description) description.value = item?.description ?? "";
+    const category = field<HTMLSelectElement>("category");
+    if (category) category.value = item?.category ?? "materials";
+    const date = field<HTMLInputElement>("date");
+    if (date) date.value = item?.date ?? Project.toDay(new Date());
+    const amount = field<HTMLInputElement>("amount");
+    if (amount) amount.value = item ? String(item.amount) : "";
+
+    els.costItemModal.showModal();
+  }
+
+  private bindBudget(els: DetailsEls) {
+    els.addCostItemBtn?.addEventListener("click", () => this.openCostItemModal(null));
+
+    const form = els.costItemForm;
+    form?.addEventListener("submit", (e) => {
+      e.preventDefault();
+      const formData = new FormData(form);
+      const itemId = String(formData.get("costItemId") ?? "").trim(); // hidden field
+      const data: Omit<ICostItem, "id"> = {
+        description: String(formData.get("description") ?? "").trim(),
+        category: String(formData.get("category") ?? "other") as CostCategory,
+        date: String(formData.get("date") ?? "").trim(),
+        amount: Number(formData.get("amount")),
+      };
+
+      try {
+        if (itemId) {
+          this.updateCostItemInActiveProject(itemId, data);
+        } else {
+          this.addCostItemToActiveProject(data);
+        }
+        form.reset();
+        els.costItemModal?.close();
+      } catch (err) {
+        alert(String(err));
+      }
+    });
+  }
+
+  // ----------------- Timeline -----------------
+
+  /** Timeline drag of a project bar (goes through the regular project update) */
+  rescheduleProject(projectId: string, span: DaySpan) {
+    this.updateProject(projectId, {
+      startDate: new Date(span.start),
+      finishDate: new Date(span.end),
+    });
+  }
+
+  /** Timeline drag of a ToDo bar (any project, not only the open one) */
+  rescheduleTodo(projectId: string, todoId: string, span: DaySpan) {
+    this.service.rescheduleTodo(projectId, todoId, span);
+  }
+
+  // ----------------- Team members -----------------
+
+  setMembersOfActiveProject(userIds: string[]) {
+    if (!this.activeProjectId) return;
+    this.service.setMembers(this.activeProjectId, userIds);
+  }
+
+  /** Removes a deleted user from every project and ToDo (not undoable) */
+  unassignUser(userId: string) {
+    this.service.unassignUser(userId);
+  }
+
+  private renderMembers(project: Project) {
+    const els = ProjectDetailsView.elements();
+    if (!els || !els.membersContainer) return;
+
+    els.membersContainer.innerHTML = "";
+    const members = project.memberIds
+      .map((id) => this.users?.getUser(id))
+      .filter((u): u is User => !!u);
+
+    if (!members.length) {
+      const empty = document.createElement("p");
+      empty.className = "muted";
+      empty.textContent = "No team members assigned.";
+      els.membersContainer.append(empty);
+      return;
+    }
+
+    for (const user of members) {
+      const chip = document.createElement("div");
+      chip.className = "member-chip";
+      chip.style.setProperty("--project-icon-bg", user.iconBg);
+      chip.innerHTML = `
+        <span class="member-avatar"></span>
+        <div>
+          <p class="member-name"></p>
+          <p class="muted member-role"></p>
+        </div>
+      `;
+      (chip.querySelector(".member-avatar") as HTMLElement).textContent =
+        Project.getProjectInitials(user.name);
+      (chip.querySelector(".member-name") as HTMLElement).textContent = user.name;
+      (chip.querySelector(".member-role") as HTMLElement).textContent = user.role;
+      els.membersContainer.append(chip);
     }
   }
 
-  // ----------------- Details Page -----------------
+  private openMembersModal(project: Project) {
+    const els = ProjectDetailsView.elements();
+    if (!els || !els.membersModal || !els.membersForm) return;
 
-  openDetails(projectId: string) {
-    const project = this.getProject(projectId);
-    if (!project) return;
+    const options = els.membersForm.querySelector("[data-members-options]") as HTMLElement | null;
+    if (!options) return;
 
-    const projectsPage = document.getElementById("projects-page");
-    const detailsPage = document.getElementById("project-details");
-    if (!(projectsPage && detailsPage)) return;
+    options.innerHTML = "";
+    const users = this.users?.list ?? [];
+    if (!users.length) {
+      const empty = document.createElement("p");
+      empty.className = "hint";
+      empty.textContent = "There are no users yet. Create them in the Users page.";
+      options.append(empty);
+    }
 
-    projectsPage.style.display = "none";
-    detailsPage.style.display = "flex";
+    for (const user of users) {
+      const label = document.createElement("label");
+      label.className = "member-option";
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.name = "memberIds";
+      checkbox.value = user.id;
+      checkbox.checked = project.memberIds.includes(user.id);
+      label.append(checkbox, `${user.name} (${user.role})`);
+      options.append(label);
+    }
 
-    this.activeProjectId = project.id;
-    this.renderDetails(project);
-    this.renderTodos(project);
+    els.membersModal.showModal();
   }
 
-  private renderDetails(project: Project) {
-    const els = this.getDetailsElements();
-    if (!els) return;
+  // ----------------- Activity -----------------
+
+  private static readonly ACTIVITY_LABELS: Record<ActivityAction, string> = {
+    "project.created": "Project created",
+    "project.updated": "Project updated",
+    "project.imported": "Imported",
+    "project.archived": "Project archived",
+    "project.unarchived": "Project unarchived",
+    "project.trashed": "Moved to trash",
+    "project.restored": "Restored from trash",
+    "project.members": "Team changed",
+    "project.costs": "Costs changed",
+    "project.reverted": "Reverted",
+    "todo.created": "ToDo created",
+    "todo.updated": "ToDo updated",
+    "todo.deleted": "ToDo deleted",
+  };
+
+  /** Timeline of the project's activity log, newest first */
+  private renderActivity(project: Project) {
+    const els = ProjectDetailsView.elements();
+    if (!els || !els.activityList) return;
+
+    els.activityList.innerHTML = "";
+    if (!project.activity.length) {
+      const empty = document.createElement("div");
+      empty.className = "todo-empty";
+      empty.textContent = "No activity recorded yet.";
+      els.activityList.append(empty);
+      return;
+    }
+
+    for (const entry of [...project.activity].reverse()) {
+      const item = document.createElement("div");
+      item.className = `activity-item activity-${entry.action.split(".")[0]}`;
+      item.innerHTML = `
+        <div class="activity-header">
+          <p class="activity-title"></p>
+          <p class="muted activity-meta"></p>
+        </div>
+        <ul class="activity-changes"></ul>
+      `;
 
-    // Generic fields
-    if (els.nameTitle) els.nameTitle.textContent = project.name;
-    if (els.descriptionText) els.descriptionText.textContent = project.description;
+      const label = ProjectsManager.ACTIVITY_LABELS[entry.action] ?? entry.action;
+      (item.querySelector(".activity-title") as HTMLElement).textContent = entry.label
+        ? `${label}: ${entry.label}`
+        : label;
+      (item.querySelector(".activity-meta") as HTMLElement).textContent =
+        `${new Date(entry.at).toLocaleString()} · ${entry.actor}`;
+
+      const changes = item.querySelector(".activity-changes") as HTMLElement;
+      for (const change of entry.changes) {
+        const li = document.createElement("li");
+        const value = (v: string | number | null) =>
+          v === null ? "—" : change.field === "assignee" ? this.userName(String(v)) : String(v);
+        li.textContent =
+          change.before === null && /^todos /.test(change.field)
+            ? `${change.field}: ${value(change.after)}`
+            : `${change.field}: ${value(change.before)} → ${value(change.after)}`;
+        changes.append(li);
+      }
+      els.activityList.append(item);
+    }
+  }
 
-    // Optional nodes if you add them later
-    if (els.statusText) els.statusText.textContent = project.status;
-    if (els.roleText) els.roleText.textContent = project.userRole;
-    if (els.costText) els.costText.textContent = `$${project.cost}`;
-    if (els.finishDateText)
-      els.finishDateText.textContent = project.finishDate
-        ? project.finishDate.toISOString().slice(0, 10)
-        : "";
-    if (els.progressText)
-      els.progressText.textContent = `${Math.round(project.progress * 100)}%`;
+  private userName(userId: string): string {
+    return this.users?.getUser(userId)?.name ?? "unknown user";
   }
 
-  // ----------------- ToDos -----------------
+  // ----------------- IFC Models -----------------
 
-  /** Adds a todo to active project and re-renders list */
-  addTodoToActiveProject(title: string, status: TodoStatus) {
+  /** Stores the files' bytes and attaches them to the active project */
+  async attachModelsToActiveProject(files: File[]) {
     const project = this.getActiveProject();
     if (!project) return;
+    this.service.assertCan(project, "model:manage");
 
-    if (!title.trim()) {
-      throw new Error("ToDo title cannot be empty.");
+    const notIfc = files.find((file) => !file.name.toLowerCase().endsWith(".ifc"));
+    if (notIfc) {
+      throw new Error(`"${notIfc.name}" is not an IFC file.`);
     }
 
-    project.addTodo(title, status);
-    this.renderTodos(project);
+    // Files stored before a failing one stay attached and are published
+    let added = 0;
+    try {
+      for (const file of files) {
+        const model = project.addModel(file.name, file.size);
+        try {
+          await this.modelStore.put(model.id, await file.arrayBuffer());
+        } catch (err) {
+          project.removeModel(model.id);
+          throw err;
+        }
+        added++;
+      }
+    } finally {
+      if (added) {
+        this.events.emit("projectUpdated", { project });
+        if (this.activeProjectId === project.id) this.viewerLoading = this.loadViewer(project);
+      }
+    }
   }
 
-  updateTodoInActiveProject(todoId: string, data: Partial<Pick<ITodo, "title" | "status">>) {
+  async detachModelFromActiveProject(modelId: string) {
     const project = this.getActiveProject();
     if (!project) return;
-
-    const updated = project.updateTodo(todoId, data);
-    if (!updated) return;
-    this.renderTodos(project);
+    this.service.assertCan(project, "model:manage");
+
+    if (!project.models.some((m) => m.id === modelId)) return;
+    project.removeModel(modelId);
+    try {
+      await this.modelStore.remove(modelId);
+    } finally {
+      // Detached even when the bytes couldn't be deleted
+      this.events.emit("projectUpdated", { project });
+      if (this.activeProjectId === project.id) this.viewerLoading = this.loadViewer(project);
+    }
   }
 
-  private renderTodos(project: Project) {
-    const els = this.getDetailsElements();
-    if (!els || !els.todosContainer) return;
+  private renderModels(project: Project) {
+    const els = ProjectDetailsView.elements();
+    if (!els || !els.viewerModels) return;
+
+    els.viewerModels.innerHTML = "";
+    for (const model of project.models) {
+      const chip = document.createElement("span");
+      chip.className = "viewer-model-chip";
+      chip.title = `${(model.size / 1024 / 1024).toFixed(1)} MB`;
+      chip.innerHTML = `
+        <span class="viewer-model-name"></span>
+        <span class="material-icons-round viewer-model-remove" title="Detach">close</span>
+      `;
+      const name = chip.querySelector(".viewer-model-name") as HTMLElement | null;
+      if (name) name.textContent = model.name;
+
+      const remove = chip.querySelector(".viewer-model-remove") as HTMLElement | null;
+      if (remove) remove.hidden = !this.can(project, "model:manage");
+      remove?.addEventListener("click", () => {
+        if (!confirm(`Detach "${model.name}" from this project?`)) return;
+        this.detachModelFromActiveProject(model.id).catch((err) => alert(String(err)));
+      });
 
-    els.todosContainer.innerHTML = "";
+      els.viewerModels.append(chip);
+    }
+  }
 
-    if (!project.todos.length) {
-      const empty = document.createElement("div");
-      empty.className = "todo-empty";
-      empty.textContent = "No ToDos yet.";
-      els.todosContainer.append(empty);
-      return;
+  /** (Re)loads the active project's IFC files into the viewer card */
+  private async loadViewer(project: Project) {
+    const viewer = this.getViewer();
+    if (!viewer) return;
+
+    const sources: IfcModelSource[] = [];
+    for (const model of project.models) {
+      const data = await this.modelStore.get(model.id).catch(() => null);
+      if (!data) {
+        console.warn(`IFC file "${model.name}" is not stored on this device.`);
+        continue;
+      }
+      sources.push({ id: model.id, name: model.name, data });
     }
 
-    for (const todo of project.todos) {
-      const item = document.createElement("div");
-      item.className = "todo-item";
-      item.dataset.todoId = todo.id;
-      item.dataset.todoStatus = todo.status;
+    // Project switched while reading files
+    if (this.activeProjectId !== project.id) return;
+    try {
+      await viewer.load(sources);
+    } catch (err) {
+      console.error("IFC viewer could not load the project models.", err);
+    }
+  }
 
-      // Visual status via CSS classes (we set a class to drive bg color)
-      item.classList.add(`todo-${todo.status}`);
+  private getViewer(): IfcViewer | null {
+    if (this.viewer) return this.viewer;
 
-      item.innerHTML = `
-        <div class="todo-row">
-          <div class="todo-left">
-            <span class="material-icons-round todo-icon">checklist</span>
-            <p class="todo-title"></p>
-          </div>
-          <div class="todo-right">
-            <select class="todo-status-select" aria-label="ToDo status">
-              <option value="pending">Pending</option>
-              <option value="in_progress">In progress</option>
-              <option value="done">Done</option>
-              <option value="blocked">Blocked</option>
-            </select>
-            <span class="material-icons-round todo-edit" title="Edit">edit</span>
-          </div>
-        </div>
-      `;
+    const els = ProjectDetailsView.elements();
+    if (!els || !els.viewerCanvas) return null;
 
-      const titleEl = item.querySelector(".todo-title") as HTMLElement | null;
-      if (titleEl) titleEl.textContent = todo.title;
+    this.viewer = new IfcViewer({
+      canvasHost: els.viewerCanvas,
+      tree: els.viewerTree,
+      properties: els.viewerProperties,
+    });
+    return this.viewer;
+  }
 
-      const select = item.querySelector(".todo-status-select") as HTMLSelectElement | null;
-      if (select) {
-        select.value = todo.status;
-        select.addEventListener("change", () => {
-          const value = select.value as TodoStatus;
-          this.updateTodoInActiveProject(todo.id, { status: value });
-        });
-      }
+  /** Highlights the ToDo's linked elements in the viewer and restores its viewpoint */
+  async focusTodo(todoId: string) {
+    const project = this.getActiveProject();
+    const todo = project?.todos.find((t) => t.id === todoId);
+    if (!project || !todo) return;
 
-      const editBtn = item.querySelector(".todo-edit") as HTMLElement | null;
-      if (editBtn) {
-        editBtn.addEventListener("click", () => {
-          // open todo modal in edit mode
-          this.openTodoModal({ mode: "edit", todo });
-        });
-      }
+    this.focusedTodoId = todo.id;
+    this.renderTodos(project);
 
-      els.todosContainer.append(item);
+    // Models may still be loading right after opening the project
+    await this.viewerLoading;
+    if (!this.viewer || this.focusedTodoId !== todo.id) return;
+
+    const elements = todo.elements ?? [];
+    const found = this.viewer.focusElements(elements, todo.viewpoint);
+    if (found < elements.length) {
+      console.warn(
+        `${elements.length - found} linked element(s) of "${todo.title}" were not found in the loaded models.`
+      );
     }
   }
 
+  /** Links for a ToDo taken from the current viewer selection + camera */
+  private getViewerLinks(): TodoData {
+    if (!this.viewer) return {};
+    return {
+      elements: this.viewer.getSelectedGlobalIds(),
+      viewpoint: this.viewer.getViewpoint(),
+    };
+  }
+
   private getActiveProject(): Project | undefined {
     if (!this.activeProjectId) return;
     return this.getProject(this.activeProjectId);
@@ -264,118 +1552,274 @@ export class ProjectsManager {
 
   // ----------------- Export / Import -----------------
 
+  /** Archived projects are exported (flagged), trashed ones are not */
+  private getExportedProjects(): IProject[] {
+    return this.list.filter((p) => !p.isTrashed).map((p) => p.toJSON());
+  }
+
   exportToJSON(fileName: string = "projects") {
     // Use Project.toJSON to avoid serializing DOM & methods
-    const payload = this.list.map((p) => p.toJSON());
+    const payload = ProjectsImport.createExport(
+      this.getExportedProjects(),
+      this.users?.list.map((u) => u.toJSON()) ?? []
+    );
     const json = JSON.stringify(payload, null, 2);
 
     const blob = new Blob([json], { type: "application/json" });
+    this.downloadBlob(blob, `${fileName}.json`);
+  }
+
+  /** CSV export (todos go to a second "<fileName>-todos.csv" file) */
+  exportToCSV(fileName: string = "projects", includeTodos: boolean = false) {
+    const projects = this.getExportedProjects();
+    const csv = ProjectsSpreadsheet.toCsv(projects);
+    this.downloadBlob(new Blob([csv], { type: "text/csv" }), `${fileName}.csv`);
+
+    if (includeTodos) {
+      const todosCsv = ProjectsSpreadsheet.todosToCsv(projects);
+      this.downloadBlob(new Blob([todosCsv], { type: "text/csv" }), `${fileName}-todos.csv`);
+    }
+  }
+
+  async exportToXLSX(fileName: string = "projects", includeTodos: boolean = false) {
+    const buffer = await ProjectsSpreadsheet.toXlsx(this.getExportedProjects(), includeTodos);
+    const blob = new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+    this.downloadBlob(blob, `${fileName}.xlsx`);
+  }
+
+  /** .ics with the finish / due dates of one project, or of every project in the main list */
+  exportCalendar(projectId: string | null = null) {
+    const project = projectId ? this.getProject(projectId) : undefined;
+    if (projectId && !project) return;
+
+    const projects = project ? [project] : this.getProjectsInView("active");
+    const name = project ? project.name : "Projects";
+    const ics = ICalendar.build(Calendar.events(projects), name);
+    const safeName = name.replace(/[^\w-]+/g, "_");
+    this.downloadBlob(new Blob([ics], { type: "text/calendar" }), `${safeName}.ics`);
+  }
+
+  /** Exports the active project's ToDos as a BCF archive (one topic per ToDo) */
+  async exportBcfForActiveProject(version: BcfVersion, withSnapshots: boolean = true) {
+    const project = this.getActiveProject();
+    if (!project) return;
+
+    const viewer = this.viewer;
+    const blob = await BcfArchive.write(project.todos, {
+      version,
+      projectId: project.id,
+      projectName: project.name,
+      snapshot:
+        withSnapshots && viewer
+          ? (todo) => viewer.snapshot(todo.elements ?? [], todo.viewpoint)
+          : undefined,
+    });
+
+    const safeName = project.name.replace(/[^\w-]+/g, "_");
+    this.downloadBlob(blob, `${safeName}.bcf`);
+  }
+
+  /** Imports BCF topics as ToDos of the active project (deduped by topic GUID) */
+  importBcfToActiveProject() {
+    const project = this.getActiveProject();
+    if (!project) return;
+    // Checked before the file picker opens (and again when applying)
+    this.service.assertCan(project, "todo:create");
+    this.service.assertCan(project, "todo:edit");
+
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".bcf,.bcfzip,.zip";
+
+    input.addEventListener("change", async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      let topics: BcfTopic[];
+      try {
+        topics = await BcfArchive.read(file);
+      } catch (err) {
+        alert(`Invalid BCF file. ${String(err)}`);
+        return;
+      }
+
+      let result: { created: number; updated: number };
+      try {
+        result = this.service.importBcfTopics(project.id, topics, file.name);
+      } catch (err) {
+        alert(String(err));
+        return;
+      }
+      alert(`BCF import: ${result.created} ToDo(s) created, ${result.updated} updated.`);
+    });
+
+    input.click();
+  }
+
+  private downloadBlob(blob: Blob, fileName: string) {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `${fileName}.json`;
+    a.download = fileName;
     a.click();
     URL.revokeObjectURL(url);
   }
 
   importFromJSON() {
+    this.importFromFile("application/json,.json");
+  }
+
+  /** Opens a file picker for JSON, CSV or XLSX and previews the import */
+  importFromFile(accept: string = ".json,.csv,.xlsx") {
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = "application/json";
+    input.accept = accept;
 
-    const reader = new FileReader();
+    input.addEventListener("change", async () => {
+      const file = input.files?.[0];
+      if (!file) return;
 
-    reader.addEventListener("load", () => {
-      const json = reader.result;
-      if (!json) return;
-
-      let projects: IProject[] = [];
+      // Parse + migrate + validate, then let the user review before applying
       try {
-        projects = JSON.parse(json as string) as IProject[];
-      } catch (e) {
-        alert("Invalid JSON file.");
+        const isJSON = file.name.toLowerCase().endsWith(".json");
+        const { data, sourceVersion } = isJSON
+          ? ProjectsImport.parse(await file.text())
+          : {
+              // Spreadsheets are already normalized to the current schema
+              data: ProjectsImport.createExport(
+                await ProjectsSpreadsheet.read(await file.arrayBuffer())
+              ),
+              sourceVersion: ProjectsImport.SCHEMA_VERSION,
+            };
+        const plan = this.planImport(data, sourceVersion);
+        this.pendingImport = { data, sourceVersion, plan };
+      } catch (err) {
+        alert(String(err));
         return;
       }
+      this.openImportPreview();
+    });
 
-      for (const incoming of projects) {
-        // Merge logic:
-        // 1) If has id and exists => update
-        // 2) Else if name exists => update
-        // 3) Else create new
-        const incomingName = (incoming.name ?? "").trim();
-
-        const existingById =
-          typeof incoming.id === "string" ? this.getProject(incoming.id) : undefined;
-        const existingByName = incomingName ? this.getProjectByName(incomingName) : undefined;
-
-        const existing = existingById ?? existingByName;
-
-        if (existing) {
-          // Update existing project in place
-          existing.update({
-            name: incomingName || existing.name,
-            description: incoming.description ?? existing.description,
-            status: (incoming.status as any) ?? existing.status,
-            userRole: (incoming.userRole as any) ?? existing.userRole,
-            finishDate: incoming.finishDate ?? existing.finishDate,
-            cost: typeof incoming.cost === "number" ? incoming.cost : existing.cost,
-            progress:
-              typeof incoming.progress === "number" ? incoming.progress : existing.progress,
-            iconBg: incoming.iconBg ?? existing.iconBg,
-          });
-
-          // Merge todos (replace by id, add missing)
-          if (Array.isArray(incoming.todos)) {
-            // Replace full list for simplicity & determinism
-            existing.todos = incoming.todos.map((t) => ({ ...t })) as any;
-          }
+    input.click();
+  }
+
+  /** Builds the import plan; updates of projects whose role can't import are skipped */
+  private planImport(data: IProjectsExport, sourceVersion: number): ImportPlan {
+    return this.service.planImport(data, sourceVersion, this.getImportMergeMode());
+  }
 
-          // Refresh UI card
-          existing.syncCardUI();
+  /** Applies a previewed import plan (skipped entries are ignored) */
+  applyImport(plan: ImportPlan) {
+    this.service.applyImport(plan);
+  }
 
-          // If it is active, refresh details
-          if (this.activeProjectId === existing.id) {
-            this.renderDetails(existing);
-            this.renderTodos(existing);
-          }
-          continue;
-        }
+  private openImportPreview() {
+    if (!this.pendingImport) return;
+    const modal = document.getElementById("import-preview-modal") as HTMLDialogElement | null;
+    if (!modal) {
+      // No preview UI available: apply directly
+      this.applyImport(this.pendingImport.plan);
+      this.pendingImport = null;
+      return;
+    }
 
-        // If it's new: validate name (same rule)
-        if (incomingName.length < 5) {
-          // skip invalid imports silently (or alert)
-          continue;
-        }
+    this.renderImportPreview(this.pendingImport.plan);
+    if (!modal.open) modal.showModal();
+  }
 
-        // Create new project card
-        const created = new Project({
-          ...incoming,
-          name: incomingName,
-        });
+  private renderImportPreview(plan: ImportPlan) {
+    const list = document.getElementById("import-preview-list") as HTMLElement | null;
+    const summary = document.getElementById("import-preview-summary") as HTMLElement | null;
+    if (!list) return;
+
+    const count = (action: string) => plan.entries.filter((e) => e.action === action).length;
+    if (summary) {
+      const migrated =
+        plan.schemaVersion < ProjectsImport.SCHEMA_VERSION
+          ? ` Migrated from schema v${plan.schemaVersion}.`
+          : "";
+      const users = plan.users.filter((e) => e.action !== "skip").length;
+      summary.textContent =
+        `${count("create")} to create, ${count("update")} to update, ${count("skip")} skipped.` +
+        (plan.users.length ? ` ${users} of ${plan.users.length} user(s) imported.` : "") +
+        migrated;
+    }
 
-        created.ui.addEventListener("click", () => {
-          this.openDetails(created.id);
-        });
+    list.innerHTML = "";
+    const entries = [
+      ...plan.users.map((e) => ({ ...e, kind: "user" })),
+      ...plan.entries.map((e) => ({ ...e, kind: "project" })),
+    ];
+    for (const entry of entries) {
+      const item = document.createElement("div");
+      item.className = `import-entry import-${entry.action}`;
+      item.innerHTML = `
+        <div class="import-entry-header">
+          <span class="import-action"></span>
+          <p class="import-name"></p>
+        </div>
+        <ul class="import-details"></ul>
+      `;
+      (item.querySelector(".import-action") as HTMLElement).textContent =
+        `${entry.action} ${entry.kind}`;
+      (item.querySelector(".import-name") as HTMLElement).textContent = entry.name;
+
+      const details = item.querySelector(".import-details") as HTMLElement;
+      for (const line of [...entry.reasons, ...entry.overwrites]) {
+        const li = document.createElement("li");
+        li.textContent = line;
+        details.append(li);
+      }
+      list.append(item);
+    }
+  }
+
+  private getImportMergeMode(): TodoMergeMode {
+    const select = document.getElementById("import-merge-mode") as HTMLSelectElement | null;
+    const value = select?.value;
+    if (value === "replace" || value === "keep-local") return value;
+    return "newest-wins";
+  }
 
-        this.ui.append(created.ui);
-        this.list.push(created);
+  private bindImportPreview() {
+    const modal = document.getElementById("import-preview-modal") as HTMLDialogElement | null;
+    const form = document.getElementById("import-preview-form") as HTMLFormElement | null;
+    if (!modal || !form) return;
+
+    form.addEventListener("submit", (e) => {
+      e.preventDefault();
+      try {
+        if (this.pendingImport) this.applyImport(this.pendingImport.plan);
+      } catch (err) {
+        alert(String(err));
+        return;
       }
+      this.pendingImport = null;
+      modal.close();
     });
 
-    input.addEventListener("change", () => {
-      const filesList = input.files;
-      if (!filesList || !filesList[0]) return;
-      reader.readAsText(filesList[0]);
+    // Changing the merge mode re-plans the same file
+    const mergeSelect = document.getElementById("import-merge-mode") as HTMLSelectElement | null;
+    mergeSelect?.addEventListener("change", () => {
+      if (!this.pendingImport) return;
+      const { data, sourceVersion } = this.pendingImport;
+      this.pendingImport.plan = this.planImport(data, sourceVersion);
+      this.renderImportPreview(this.pendingImport.plan);
     });
 
-    input.click();
+    // Esc / Cancel discard the plan
+    modal.addEventListener("close", () => {
+      this.pendingImport = null;
+    });
   }
 
   // ----------------- Details bindings (Edit Project + Todo Modal) -----------------
 
   private bindDetailsPage() {
     // Edit project button + modal + form
-    const els = this.getDetailsElements();
+    const els = ProjectDetailsView.elements();
     if (!els) return;
 
     // Bind edit button if exists
@@ -387,6 +1831,32 @@ export class ProjectsManager {
       });
     }
 
+    // Archive / move to trash
+    if (els.archiveBtn) {
+      els.archiveBtn.addEventListener("click", () => {
+        const project = this.getActiveProject();
+        if (!project) return;
+        try {
+          this.archiveProject(project.id, !project.archived);
+        } catch (err) {
+          alert(String(err));
+        }
+      });
+    }
+
+    if (els.deleteBtn) {
+      els.deleteBtn.addEventListener("click", () => {
+        const project = this.getActiveProject();
+        if (!project) return;
+        if (!confirm(`Move "${project.name}" to the trash?`)) return;
+        try {
+          this.deleteProject(project.id);
+        } catch (err) {
+          alert(String(err));
+        }
+      });
+    }
+
     // Bind edit form submit
     if (els.editForm) {
       els.editForm.addEventListener("submit", (e) => {
@@ -396,24 +1866,48 @@ export class ProjectsManager {
 
         const formData = new FormData(els.editForm!);
 
-        const name = String(formData.get("name") ?? "").trim();
-        const description = String(formData.get("description") ?? "").trim();
-        const status = String(formData.get("status") ?? project.status) as any;
-        const userRole = String(formData.get("userRole") ?? project.userRole) as any;
-        const finishDateRaw = formData.get("finishDate");
-        const finishDate =
-          finishDateRaw && String(finishDateRaw).trim()
-            ? new Date(String(finishDateRaw))
-            : new Date(); // default if not specified
+        // Fields disabled for the current role are not part of the form data
+        const data: Partial<IProject> = {};
+        if (formData.has("name")) data.name = String(formData.get("name")).trim();
+        if (formData.has("description")) {
+          data.description = String(formData.get("description")).trim();
+        }
+        if (formData.has("status")) data.status = Project.normalizeStatus(formData.get("status"));
+        if (formData.has("userRole")) data.userRole = Project.normalizeRole(formData.get("userRole"));
+        if (formData.has("startDate")) {
+          // Empty = back to the creation day
+          const startDateRaw = String(formData.get("startDate")).trim();
+          data.startDate = startDateRaw ? new Date(startDateRaw) : null;
+        }
+        if (formData.has("finishDate")) {
+          const finishDateRaw = String(formData.get("finishDate")).trim();
+          data.finishDate = finishDateRaw ? new Date(finishDateRaw) : new Date(); // default if not specified
+        }
+        if (formData.has("budget")) {
+          const budget = Number(String(formData.get("budget")).trim() || 0);
+          if (!Number.isFinite(budget) || budget < 0) {
+            alert("Budget must be a positive amount.");
+            return;
+          }
+          data.budget = budget;
+        }
+        if (formData.has("currency")) data.currency = Budget.normalizeCurrency(formData.get("currency"));
+        if (formData.has("progressMode")) {
+          data.progressMode = Project.normalizeProgressMode(formData.get("progressMode"));
+        }
+        // Percent input; only meaningful in manual mode
+        const progressRaw = String(formData.get("progress") ?? "").trim();
+        if (formData.has("progress") && data.progressMode === "manual" && progressRaw) {
+          const percent = Number(progressRaw);
+          if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+            alert("Progress must be a percentage between 0 and 100.");
+            return;
+          }
+          data.progress = percent / 100;
+        }
 
         try {
-          this.updateProject(project.id, {
-            name,
-            description,
-            status,
-            userRole,
-            finishDate,
-          });
+          this.updateProject(project.id, data);
           els.editModal?.close();
         } catch (err) {
           alert(String(err));
@@ -421,6 +1915,13 @@ export class ProjectsManager {
       });
     }
 
+    this.bindBudget(els);
+
+    const modeSelect = els.editForm?.querySelector("[name='progressMode']") as HTMLSelectElement | null;
+    modeSelect?.addEventListener("change", () => {
+      if (els.editForm) this.syncProgressField(els.editForm);
+    });
+
     // Add ToDo button
     if (els.addTodoBtn) {
       els.addTodoBtn.addEventListener("click", () => {
@@ -428,8 +1929,85 @@ export class ProjectsManager {
       });
     }
 
+    // Attach IFC files
+    if (els.attachModelBtn) {
+      els.attachModelBtn.addEventListener("click", () => {
+        const input = document.createElement("input");
+        input.type = "file";
+        input.accept = ".ifc";
+        input.multiple = true;
+        input.addEventListener("change", () => {
+          const files = Array.from(input.files ?? []);
+          if (!files.length) return;
+          this.attachModelsToActiveProject(files).catch((err) => alert(String(err)));
+        });
+        input.click();
+      });
+    }
+
+    // BCF import / export
+    if (els.importBcfBtn) {
+      els.importBcfBtn.addEventListener("click", () => {
+        try {
+          this.importBcfToActiveProject();
+        } catch (err) {
+          alert(String(err));
+        }
+      });
+    }
+
+    if (els.exportBcfBtn) {
+      els.exportBcfBtn.addEventListener("click", () => els.bcfModal?.showModal());
+    }
+
+    els.exportIcsBtn?.addEventListener("click", () => {
+      if (this.activeProjectId) this.exportCalendar(this.activeProjectId);
+    });
+
+    if (els.bcfForm) {
+      els.bcfForm.addEventListener("submit", (e) => {
+        e.preventDefault();
+        const formData = new FormData(els.bcfForm!);
+        const version = String(formData.get("version") ?? "2.1") === "3.0" ? "3.0" : "2.1";
+        const withSnapshots = formData.get("snapshots") === "on";
+
+        this.exportBcfForActiveProject(version, withSnapshots)
+          .then(() => els.bcfModal?.close())
+          .catch((err) => alert(String(err)));
+      });
+    }
+
+    // Team members
+    if (els.assignMembersBtn) {
+      els.assignMembersBtn.addEventListener("click", () => {
+        const project = this.getActiveProject();
+        if (!project) return;
+        this.openMembersModal(project);
+      });
+    }
+
+    if (els.membersForm) {
+      els.membersForm.addEventListener("submit", (e) => {
+        e.preventDefault();
+        const formData = new FormData(els.membersForm!);
+        const userIds = formData.getAll("memberIds").map((v) => String(v));
+        try {
+          this.setMembersOfActiveProject(userIds);
+          els.membersModal?.close();
+        } catch (err) {
+          alert(String(err));
+        }
+      });
+    }
+
     // Todo form submit (create / edit)
     if (els.todoForm) {
+      const checklistAdd = els.todoForm.querySelector("[data-checklist-add]") as HTMLElement | null;
+      const checklistList = els.todoForm.querySelector("[data-checklist-items]") as HTMLElement | null;
+      checklistAdd?.addEventListener("click", () => {
+        if (checklistList) this.addChecklistRow(checklistList);
+      });
+
       els.todoForm.addEventListener("submit", (e) => {
         e.preventDefault();
         const project = this.getActiveProject();
@@ -440,12 +2018,36 @@ export class ProjectsManager {
         const title = String(formData.get("title") ?? "").trim();
         const status = String(formData.get("status") ?? "pending") as TodoStatus;
         const todoId = String(formData.get("todoId") ?? "").trim(); // hidden field
+        const assigneeId = String(formData.get("assigneeId") ?? "").trim() || undefined;
+        // Empty values are sent as undefined so untouched fields don't count as edits
+        const details: TodoData = {
+          assigneeId,
+          priority: String(formData.get("priority") ?? "medium") as TodoPriority,
+          dueDate: String(formData.get("dueDate") ?? "").trim() || undefined,
+          description: String(formData.get("description") ?? "").trim() || undefined,
+          tags: Project.normalizeElements(String(formData.get("tags") ?? "").split(",")),
+          checklist: Project.normalizeChecklist(this.readChecklistEditor(form)),
+          weight: Project.normalizeWeight(Number(formData.get("weight") || 1)),
+          milestone: formData.has("milestone") || undefined,
+          startDate: String(formData.get("startDate") ?? "").trim() || undefined,
+          endDate: String(formData.get("endDate") ?? "").trim() || undefined,
+          dependsOn: Project.normalizeElements(formData.getAll("dependsOn").map(String)),
+        };
+
+        // Element links: keep as they are, take viewer selection, or remove
+        const linkMode = String(formData.get("elementLinks") ?? "keep");
+        const links: TodoData =
+          linkMode === "selection"
+            ? this.getViewerLinks()
+            : linkMode === "none"
+              ? { elements: undefined, viewpoint: undefined }
+              : {};
 
         try {
           if (todoId) {
-            this.updateTodoInActiveProject(todoId, { title, status });
+            this.updateTodoInActiveProject(todoId, { title, status, ...details, ...links });
           } else {
-            this.addTodoToActiveProject(title, status);
+            this.addTodoToActiveProject(title, status, { ...details, ...links });
           }
           form.reset();
           els.todoModal?.close();
@@ -457,7 +2059,7 @@ export class ProjectsManager {
   }
 
   private openEditModal(project: Project) {
-    const els = this.getDetailsElements();
+    const els = ProjectDetailsView.elements();
     if (!els || !els.editModal || !els.editForm) return;
 
     // Prefill
@@ -478,14 +2080,40 @@ export class ProjectsManager {
     const roleSelect = form.querySelector("[name='userRole']") as HTMLSelectElement | null;
     if (roleSelect) roleSelect.value = project.userRole;
 
+    const startInput = form.querySelector("[name='startDate']") as HTMLInputElement | null;
+    if (startInput) startInput.value = project.startDate.toISOString().slice(0, 10);
     const dateInput = form.querySelector("[name='finishDate']") as HTMLInputElement | null;
     if (dateInput) dateInput.value = project.finishDate.toISOString().slice(0, 10);
 
+    const budgetInput = form.querySelector("[name='budget']") as HTMLInputElement | null;
+    if (budgetInput) budgetInput.value = project.budget ? String(project.budget) : "";
+    const currencySelect = form.querySelector("[name='currency']") as HTMLSelectElement | null;
+    if (currencySelect) {
+      // Imported projects may use a currency the list doesn't offer
+      if (!Array.from(currencySelect.options).some((o) => o.value === project.currency)) {
+        currencySelect.append(new Option(project.currency, project.currency));
+      }
+      currencySelect.value = project.currency;
+    }
+
+    const modeSelect = form.querySelector("[name='progressMode']") as HTMLSelectElement | null;
+    if (modeSelect) modeSelect.value = project.progressMode;
+    const progressInput = form.querySelector("[name='progress']") as HTMLInputElement | null;
+    if (progressInput) progressInput.value = String(Math.round(project.manualProgress * 100));
+    this.syncProgressField(form);
+
     els.editModal.showModal();
   }
 
+  /** The manual percentage only applies in "manual" progress mode */
+  private syncProgressField(form: HTMLFormElement) {
+    const modeSelect = form.querySelector("[name='progressMode']") as HTMLSelectElement | null;
+    const manualField = form.querySelector("[data-progress-manual]") as HTMLElement | null;
+    if (manualField) manualField.hidden = (modeSelect?.value ?? "manual") !== "manual";
+  }
+
   private openTodoModal(opts: { mode: "create" } | { mode: "edit"; todo: ITodo }) {
-    const els = this.getDetailsElements();
+    const els = ProjectDetailsView.elements();
     if (!els || !els.todoModal || !els.todoForm) return;
 
     const form = els.todoForm;
@@ -493,69 +2121,116 @@ export class ProjectsManager {
     const todoIdInput = form.querySelector("[name='todoId']") as HTMLInputElement | null;
     const titleInput = form.querySelector("[name='title']") as HTMLInputElement | null;
     const statusSelect = form.querySelector("[name='status']") as HTMLSelectElement | null;
+    const linksSelect = form.querySelector("[name='elementLinks']") as HTMLSelectElement | null;
+    const keepLinksOption = linksSelect?.querySelector("option[value='keep']") as
+      | HTMLOptionElement
+      | null;
+    const assigneeSelect = form.querySelector("[name='assigneeId']") as HTMLSelectElement | null;
+    const selectedCount = this.viewer?.getSelectedGlobalIds().length ?? 0;
+
+    // Project members (+ the current assignee, if no longer a member)
+    const project = this.getActiveProject();
+    const currentAssignee = opts.mode === "edit" ? opts.todo.assigneeId : undefined;
+    if (assigneeSelect && project) {
+      assigneeSelect.innerHTML = `<option value="">Unassigned</option>`;
+      const ids = [...project.memberIds];
+      if (currentAssignee && !ids.includes(currentAssignee)) ids.push(currentAssignee);
+      for (const id of ids) {
+        const user = this.users?.getUser(id);
+        if (!user) continue;
+        const option = document.createElement("option");
+        option.value = user.id;
+        option.textContent = user.name;
+        assigneeSelect.append(option);
+      }
+      assigneeSelect.value = currentAssignee && this.users?.getUser(currentAssignee) ? currentAssignee : "";
+    }
+
+    const todo = opts.mode === "edit" ? opts.todo : null;
+    const field = <T extends HTMLElement>(name: string) =>
+      form.querySelector(`[name='${name}']`) as T | null;
+    const priority = field<HTMLSelectElement>("priority");
+    if (priority) priority.value = todo?.priority ?? "medium";
+    const dueDate = field<HTMLInputElement>("dueDate");
+    if (dueDate) dueDate.value = todo?.dueDate ?? "";
+    const description = field<HTMLTextAreaElement>("description");
+    if (description) description.value = todo?.description ?? "";
+    const tags = field<HTMLInputElement>("tags");
+    if (tags) tags.value = (todo?.tags ?? []).join(", ");
+    const weight = field<HTMLInputElement>("weight");
+    if (weight) weight.value = String(todo?.weight ?? 1);
+    const milestone = field<HTMLInputElement>("milestone");
+    if (milestone) milestone.checked = todo?.milestone === true;
+    const startDate = field<HTMLInputElement>("startDate");
+    if (startDate) startDate.value = todo?.startDate ?? "";
+    const endDate = field<HTMLInputElement>("endDate");
+    if (endDate) endDate.value = todo?.endDate ?? "";
+    const dependsOn = field<HTMLSelectElement>("dependsOn");
+    if (dependsOn) {
+      // Any other ToDo of the project can be a predecessor
+      dependsOn.innerHTML = "";
+      for (const other of project?.todos ?? []) {
+        if (other.id === todo?.id) continue;
+        const option = new Option(other.title, other.id);
+        option.selected = todo?.dependsOn?.includes(other.id) ?? false;
+        dependsOn.append(option);
+      }
+    }
+    this.renderChecklistEditor(form, todo?.checklist ?? []);
 
     if (opts.mode === "create") {
       if (todoIdInput) todoIdInput.value = "";
       if (titleInput) titleInput.value = "";
       if (statusSelect) statusSelect.value = "pending";
+      if (keepLinksOption) keepLinksOption.hidden = true;
+      if (linksSelect) linksSelect.value = selectedCount ? "selection" : "none";
     } else {
       if (todoIdInput) todoIdInput.value = opts.todo.id;
       if (titleInput) titleInput.value = opts.todo.title;
       if (statusSelect) statusSelect.value = opts.todo.status;
+      if (keepLinksOption) {
+        keepLinksOption.hidden = false;
+        keepLinksOption.textContent = `Keep current links (${opts.todo.elements?.length ?? 0} elements)`;
+      }
+      if (linksSelect) linksSelect.value = "keep";
     }
 
     els.todoModal.showModal();
   }
 
-  // ----------------- DOM helpers -----------------
-
-  private getDetailsElements(): DetailsEls | null {
-    const root = document.getElementById("project-details");
-    if (!root) return null;
-
-    const nameTitle = root.querySelector("[data-project-info='name']") as HTMLElement | null;
-    const descriptionText = root.querySelector(
-      "[data-project-info='description']"
-    ) as HTMLElement | null;
+  // ----------------- ToDo checklist editor -----------------
 
-    const statusText = root.querySelector(
-      "[data-project-info='status']"
-    ) as HTMLElement | null;
-    const roleText = root.querySelector("[data-project-info='role']") as HTMLElement | null;
-    const costText = root.querySelector("[data-project-info='cost']") as HTMLElement | null;
-    const finishDateText = root.querySelector(
-      "[data-project-info='finishDate']"
-    ) as HTMLElement | null;
-    const progressText = root.querySelector(
-      "[data-project-info='progress']"
-    ) as HTMLElement | null;
-
-    const editBtn = document.getElementById("edit-project-btn") as HTMLElement | null;
-    const editModal = document.getElementById("edit-project-modal") as HTMLDialogElement | null;
-    const editForm = document.getElementById("edit-project-form") as HTMLFormElement | null;
-
-    const todosContainer = document.getElementById("todos-list") as HTMLElement | null;
-    const addTodoBtn = document.getElementById("add-todo-btn") as HTMLElement | null;
+  private renderChecklistEditor(form: HTMLFormElement, items: IChecklistItem[]) {
+    const list = form.querySelector("[data-checklist-items]") as HTMLElement | null;
+    if (!list) return;
+    list.innerHTML = "";
+    for (const item of items) this.addChecklistRow(list, item);
+  }
 
-    const todoModal = document.getElementById("todo-modal") as HTMLDialogElement | null;
-    const todoForm = document.getElementById("todo-form") as HTMLFormElement | null;
+  private addChecklistRow(list: HTMLElement, item: IChecklistItem | null = null) {
+    const row = document.createElement("div");
+    row.className = "checklist-item";
+    if (item) row.dataset.itemId = item.id;
+    row.innerHTML = `
+      <input type="checkbox" aria-label="Done" />
+      <input type="text" placeholder="Checklist item" />
+      <span class="material-icons-round action-icon" title="Remove item">close</span>
+    `;
+    const [done, text] = Array.from(row.querySelectorAll("input"));
+    done.checked = item?.done ?? false;
+    text.value = item?.text ?? "";
+    row.querySelector(".action-icon")?.addEventListener("click", () => row.remove());
+    list.append(row);
+    if (!item) text.focus();
+  }
 
-    return {
-      root,
-      nameTitle,
-      descriptionText,
-      statusText,
-      roleText,
-      costText,
-      finishDateText,
-      progressText,
-      editBtn,
-      editModal,
-      editForm,
-      todosContainer,
-      addTodoBtn,
-      todoModal,
-      todoForm,
-    };
+  /** Raw rows (unnormalized: empty texts are dropped by Project.normalizeChecklist) */
+  private readChecklistEditor(form: HTMLFormElement): Partial<IChecklistItem>[] {
+    return Array.from(form.querySelectorAll<HTMLElement>("[data-checklist-items] .checklist-item")).map(
+      (row) => {
+        const [done, text] = Array.from(row.querySelectorAll("input"));
+        return { id: row.dataset.itemId, text: text?.value ?? "", done: !!done?.checked };
+      }
+    );
   }
 }
@@ -0,0 +1,490 @@
+import { CellValue, Workbook } from "exceljs";
+import { CostCategory, ICostItem, IProject, ITodo, Project, TodoStatus } from "./Project";
+import { Budget } from "./Budget";
+
+type Cell = string | number | boolean;
+
+type ProjectRow = {
+  id: string;
+  name: string;
+  description: string;
+  status: string;
+  userRole: string;
+  startDate: string; // YYYY-MM-DD
+  finishDate: string; // YYYY-MM-DD
+  budget: number;
+  currency: string;
+  cost: number; // actual spend
+  progress: number; // 0..1
+  progressMode: string;
+  archived: boolean;
+  todos_total: number;
+  todos_pending: number;
+  todos_in_progress: number;
+  todos_done: number;
+  todos_blocked: number;
+};
+
+type ActivityRow = {
+  project_id: string;
+  project: string;
+  at: string;
+  action: string;
+  actor: string;
+  label: string;
+  changes: string; // "status: pending → active; cost: 0 → 100"
+};
+
+type CostRow = {
+  project_id: string;
+  project: string;
+  id: string;
+  date: string; // YYYY-MM-DD
+  category: string;
+  description: string;
+  amount: number;
+};
+
+type TodoRow = {
+  project_id: string;
+  project: string;
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  dueDate: string;
+  tags: string; // "facade; urgent"
+  description: string;
+  weight: number;
+  milestone: boolean;
+  startDate: string;
+  endDate: string;
+  dependsOn: string; // ToDo ids, "; " separated
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * CSV / XLSX conversion of the project portfolio.
+ * Sheet "Projects" has one row per project, optional sheets "Todos" / "Costs"
+ * one row per ToDo / cost line item.
+ * Imports go through the same Project.normalize* rules as the New Project form.
+ */
+export class ProjectsSpreadsheet {
+  static readonly PROJECTS_SHEET = "Projects";
+  static readonly TODOS_SHEET = "Todos";
+  static readonly ACTIVITY_SHEET = "Activity";
+  static readonly COSTS_SHEET = "Costs";
+
+  // Spreadsheet header (lowercase, no spaces/underscores) => IProject field
+  private static readonly COLUMN_ALIASES: Record<string, keyof IProject> = {
+    id: "id",
+    name: "name",
+    project: "name",
+    projectname: "name",
+    description: "description",
+    status: "status",
+    role: "userRole",
+    userrole: "userRole",
+    startdate: "startDate",
+    start: "startDate",
+    finishdate: "finishDate",
+    finish: "finishDate",
+    duedate: "finishDate",
+    budget: "budget",
+    currency: "currency",
+    cost: "cost",
+    progress: "progress",
+    progressmode: "progressMode",
+    archived: "archived",
+  };
+
+  // ----------------- Export -----------------
+
+  static toCsv(projects: IProject[]): string {
+    return ProjectsSpreadsheet.writeCsv(projects.map((p) => ProjectsSpreadsheet.projectRow(p)));
+  }
+
+  static todosToCsv(projects: IProject[]): string {
+    return ProjectsSpreadsheet.writeCsv(ProjectsSpreadsheet.todoRows(projects));
+  }
+
+  static async toXlsx(projects: IProject[], includeTodos: boolean): Promise<ArrayBuffer> {
+    const book = new Workbook();
+    ProjectsSpreadsheet.addSheet(
+      book,
+      ProjectsSpreadsheet.PROJECTS_SHEET,
+      projects.map((p) => ProjectsSpreadsheet.projectRow(p))
+    );
+    if (includeTodos) {
+      ProjectsSpreadsheet.addSheet(
+        book,
+        ProjectsSpreadsheet.TODOS_SHEET,
+        ProjectsSpreadsheet.todoRows(projects)
+      );
+    }
+    const costs = ProjectsSpreadsheet.costRows(projects);
+    if (costs.length) {
+      ProjectsSpreadsheet.addSheet(book, ProjectsSpreadsheet.COSTS_SHEET, costs);
+    }
+    const activity = ProjectsSpreadsheet.activityRows(projects);
+    if (activity.length) {
+      ProjectsSpreadsheet.addSheet(book, ProjectsSpreadsheet.ACTIVITY_SHEET, activity);
+    }
+    return book.xlsx.writeBuffer();
+  }
+
+  /** One header row (keys of the rows), then one row per object */
+  private static addSheet(book: Workbook, name: string, rows: Record<string, Cell>[]) {
+    const sheet = book.addWorksheet(name);
+    const header = ProjectsSpreadsheet.columns(rows);
+    if (!header.length) return;
+    sheet.addRow(header);
+    for (const row of rows) sheet.addRow(header.map((h) => row[h] ?? ""));
+  }
+
+  private static writeCsv(rows: Record<string, Cell>[]): string {
+    const header = ProjectsSpreadsheet.columns(rows);
+    const line = (values: Cell[]) =>
+      values
+        .map((value) => {
+          const text = typeof value === "boolean" ? String(value).toUpperCase() : String(value);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",");
+    return [line(header), ...rows.map((row) => line(header.map((h) => row[h] ?? "")))].join("\n");
+  }
+
+  private static columns(rows: Record<string, Cell>[]): string[] {
+    return Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  }
+
+  private static projectRow(p: IProject): ProjectRow {
+    const todos = p.todos ?? [];
+    const countBy = (status: TodoStatus) => todos.filter((t) => t.status === status).length;
+    return {
+      id: p.id ?? "",
+      name: p.name,
+      description: p.description,
+      status: p.status,
+      userRole: p.userRole,
+      startDate: p.startDate ? Project.normalizeDate(p.startDate).toISOString().slice(0, 10) : "",
+      finishDate: Project.normalizeDate(p.finishDate).toISOString().slice(0, 10),
+      budget: p.budget ?? 0,
+      currency: p.currency ?? "USD",
+      cost: p.cost ?? 0,
+      progress: p.progress ?? 0,
+      progressMode: p.progressMode ?? "manual",
+      archived: p.archived === true,
+      todos_total: todos.length,
+      todos_pending: countBy("pending"),
+      todos_in_progress: countBy("in_progress"),
+      todos_done: countBy("done"),
+      todos_blocked: countBy("blocked"),
+    };
+  }
+
+  private static todoRows(projects: IProject[]): TodoRow[] {
+    return projects.flatMap((p) =>
+      (p.todos ?? []).map((t) => ({
+        project_id: p.id ?? "",
+        project: p.name,
+        id: t.id,
+        title: t.title,
+        status: t.status,
+        priority: t.priority ?? "medium",
+        dueDate: t.dueDate ?? "",
+        tags: (t.tags ?? []).join("; "),
+        description: t.description ?? "",
+        weight: t.weight ?? 1,
+        milestone: t.milestone === true,
+        startDate: t.startDate ?? "",
+        endDate: t.endDate ?? "",
+        dependsOn: (t.dependsOn ?? []).join("; "),
+        createdAt: t.createdAt,
+        updatedAt: t.updatedAt,
+      }))
+    );
+  }
+
+  private static costRows(projects: IProject[]): CostRow[] {
+    return projects.flatMap((p) =>
+      (p.costItems ?? []).map((c) => ({
+        project_id: p.id ?? "",
+        project: p.name,
+        id: c.id,
+        date: c.date,
+        category: c.category,
+        description: c.description,
+        amount: c.amount,
+      }))
+    );
+  }
+
+  /** Export only: the activity sheet is ignored on import */
+  private static activityRows(projects: IProject[]): ActivityRow[] {
+    return projects.flatMap((p) =>
+      (p.activity ?? []).map((a) => ({
+        project_id: p.id ?? "",
+        project: p.name,
+        at: a.at,
+        action: a.action,
+        actor: a.actor,
+        label: a.label ?? "",
+        changes: a.changes
+          .map((c) => `${c.field}: ${c.before ?? "—"} → ${c.after ?? "—"}`)
+          .join("; "),
+      }))
+    );
+  }
+
+  // ----------------- Import -----------------
+
+  /**
+   * Reads a CSV or XLSX file into IProject objects (first sheet = projects,
+   * "Todos" / "Costs" sheets if present). Rows without a name are ignored.
+   */
+  static async read(data: ArrayBuffer): Promise<IProject[]> {
+    const sheets = ProjectsSpreadsheet.isZip(data)
+      ? await ProjectsSpreadsheet.readXlsx(data)
+      : new Map([[ProjectsSpreadsheet.PROJECTS_SHEET, ProjectsSpreadsheet.readCsv(data)]]);
+
+    const rows = sheets.get(ProjectsSpreadsheet.PROJECTS_SHEET) ?? sheets.values().next().value;
+    if (!rows) return [];
+
+    const projects = rows
+      .map((row) => ProjectsSpreadsheet.rowToProject(row))
+      .filter((p): p is IProject => p !== null);
+
+    const todoRows = sheets.get(ProjectsSpreadsheet.TODOS_SHEET);
+    if (todoRows) ProjectsSpreadsheet.attachTodos(projects, todoRows);
+
+    const costRows = sheets.get(ProjectsSpreadsheet.COSTS_SHEET);
+    if (costRows) ProjectsSpreadsheet.attachCosts(projects, costRows);
+    return projects;
+  }
+
+  /** Rows of every sheet by sheet name, as text keyed by the header row */
+  private static async readXlsx(data: ArrayBuffer): Promise<Map<string, Record<string, string>[]>> {
+    const book = new Workbook();
+    try {
+      await book.xlsx.load(data);
+    } catch (e) {
+      throw new Error("Invalid spreadsheet: the file could not be read as XLSX.");
+    }
+
+    const sheets = new Map<string, Record<string, string>[]>();
+    for (const sheet of book.worksheets) {
+      const table: string[][] = [];
+      sheet.eachRow((row) => {
+        const values: string[] = [];
+        row.eachCell({ includeEmpty: true }, (cell, col) => {
+          values[col - 1] = ProjectsSpreadsheet.cellText(cell.value);
+        });
+        table.push(Array.from(values, (v) => v ?? ""));
+      });
+      sheets.set(sheet.name, ProjectsSpreadsheet.toRecords(table));
+    }
+    return sheets;
+  }
+
+  private static readCsv(data: ArrayBuffer): Record<string, string>[] {
+    const text = new TextDecoder().decode(data);
+    const table: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (quoted) {
+        if (ch !== '"') {
+          field += ch;
+        } else if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else if (ch === '"') {
+        quoted = true;
+      } else if (ch === ",") {
+        row.push(field);
+        field = "";
+      } else if (ch === "\n" || ch === "\r") {
+        if (ch === "\r" && text[i + 1] === "\n") i++;
+        row.push(field);
+        table.push(row);
+        row = [];
+        field = "";
+      } else {
+        field += ch;
+      }
+    }
+    if (field || row.length) {
+      row.push(field);
+      table.push(row);
+    }
+    return ProjectsSpreadsheet.toRecords(table);
+  }
+
+  /** First row = headers; blank rows are skipped, missing cells are "" */
+  private static toRecords(table: string[][]): Record<string, string>[] {
+    const [header = [], ...rows] = table;
+    return rows
+      .filter((row) => row.some((value) => value.trim()))
+      .map((row) => Object.fromEntries(header.map((h, i) => [h, row[i] ?? ""])));
+  }
+
+  private static rowToProject(row: Record<string, unknown>): IProject | null {
+    const values: Partial<Record<keyof IProject, unknown>> = {};
+    for (const [header, value] of Object.entries(row)) {
+      const field = ProjectsSpreadsheet.COLUMN_ALIASES[ProjectsSpreadsheet.headerKey(header)];
+      if (field) values[field] = value;
+    }
+
+    const name = String(values.name ?? "").trim();
+    if (!name) return null;
+
+    const project: IProject = {
+      name,
+      description: String(values.description ?? "").trim(),
+      status: Project.normalizeStatus(values.status),
+      userRole: Project.normalizeRole(values.userRole),
+      finishDate: Project.normalizeFinishDate(values.finishDate).toISOString(),
+      budget: ProjectsSpreadsheet.parseNumber(values.budget) ?? 0,
+      currency: Budget.normalizeCurrency(values.currency),
+      cost: ProjectsSpreadsheet.parseNumber(values.cost) ?? 0,
+      progress: ProjectsSpreadsheet.parseProgress(values.progress) ?? 0,
+      progressMode: Project.normalizeProgressMode(String(values.progressMode ?? "").trim().toLowerCase()),
+    };
+    const startDate = String(values.startDate ?? "").trim();
+    if (startDate && !Number.isNaN(new Date(startDate).getTime())) {
+      project.startDate = new Date(startDate).toISOString();
+    }
+    const id = String(values.id ?? "").trim();
+    if (id) project.id = id;
+    if (/^(true|yes|1|x)$/i.test(String(values.archived ?? "").trim())) project.archived = true;
+    return project;
+  }
+
+  /** Todos are matched to projects by project_id first, then by project name */
+  private static attachTodos(projects: IProject[], rows: Record<string, unknown>[]) {
+    for (const row of rows) {
+      const get = ProjectsSpreadsheet.rowGetter(row);
+      const project = ProjectsSpreadsheet.matchProject(projects, get);
+      const title = get("title");
+      if (!project || !title) continue;
+
+      const todo: Partial<ITodo> = {
+        title,
+        status: ProjectsSpreadsheet.normalizeTodoStatus(get("status")),
+        priority: Project.normalizePriority(get("priority").toLowerCase()),
+      };
+      if (get("duedate")) todo.dueDate = Project.normalizeDueDate(get("duedate"));
+      if (get("tags")) todo.tags = get("tags").split(/[;,]/);
+      if (get("description")) todo.description = get("description");
+      if (get("weight")) todo.weight = ProjectsSpreadsheet.parseNumber(get("weight")) ?? undefined;
+      if (/^(true|yes|1|x)$/i.test(get("milestone"))) todo.milestone = true;
+      if (get("startdate")) todo.startDate = Project.normalizeDueDate(get("startdate"));
+      if (get("enddate")) todo.endDate = Project.normalizeDueDate(get("enddate"));
+      if (get("dependson")) todo.dependsOn = get("dependson").split(/[;,]/);
+      if (get("id")) todo.id = get("id");
+      if (get("createdat")) todo.createdAt = get("createdat");
+      if (get("updatedat")) todo.updatedAt = get("updatedat");
+
+      project.todos = [...(project.todos ?? []), Project.normalizeTodo(todo)];
+    }
+  }
+
+  /** Cost line items; a project with a Costs sheet gets its actual spend from them */
+  private static attachCosts(projects: IProject[], rows: Record<string, unknown>[]) {
+    for (const row of rows) {
+      const get = ProjectsSpreadsheet.rowGetter(row);
+      const project = ProjectsSpreadsheet.matchProject(projects, get);
+      const amount = ProjectsSpreadsheet.parseNumber(get("amount"));
+      if (!project || amount === null) continue;
+
+      const item: Partial<ICostItem> = {
+        description: get("description"),
+        category: get("category").toLowerCase() as CostCategory,
+        date: get("date"),
+        amount,
+      };
+      if (get("id")) item.id = get("id");
+      project.costItems = [...(project.costItems ?? []), Project.normalizeCostItem(item)];
+    }
+  }
+
+  // ----------------- Helpers -----------------
+
+  /** XLSX files are zip archives ("PK\x03\x04"); anything else is read as CSV */
+  private static isZip(data: ArrayBuffer): boolean {
+    const bytes = new Uint8Array(data, 0, Math.min(4, data.byteLength));
+    return bytes.length === 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 3 && bytes[3] === 4;
+  }
+
+  /** Display text of a cell (formula results, links and rich text included) */
+  private static cellText(value: CellValue): string {
+    if (value === null || value === undefined) return "";
+    if (value instanceof Date) {
+      const iso = value.toISOString();
+      return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+    }
+    if (typeof value !== "object") return String(value);
+    if ("richText" in value) return value.richText.map((t) => t.text).join("");
+    if ("hyperlink" in value) return String(value.text);
+    if ("formula" in value || "sharedFormula" in value) {
+      return value.result === undefined ? "" : ProjectsSpreadsheet.cellText(value.result);
+    }
+    return "";
+  }
+
+  /** Cell value by normalized header ("Project ID" => "projectid") */
+  private static rowGetter(row: Record<string, unknown>): (key: string) => string {
+    return (key: string) => {
+      const header = Object.keys(row).find((h) => ProjectsSpreadsheet.headerKey(h) === key);
+      return header ? String(row[header] ?? "").trim() : "";
+    };
+  }
+
+  private static matchProject(
+    projects: IProject[],
+    get: (key: string) => string
+  ): IProject | undefined {
+    const projectId = get("projectid");
+    const projectName = get("project").toLowerCase();
+    return (
+      (projectId ? projects.find((p) => p.id === projectId) : undefined) ??
+      projects.find((p) => p.name.toLowerCase() === projectName)
+    );
+  }
+
+  private static headerKey(header: string): string {
+    return header.trim().toLowerCase().replace(/[\s_-]+/g, "");
+  }
+
+  /** "$ 1,200.50" => 1200.5 */
+  private static parseNumber(value: unknown): number | null {
+    const cleaned = String(value ?? "").replace(/[^0-9.-]/g, "");
+    if (!cleaned) return null;
+    const n = Number(cleaned);
+    return Number.isFinite(n) ? n : null;
+  }
+
+  /** Accepts 0.45, "45%" or 45 (anything above 1 is read as a percentage) */
+  private static parseProgress(value: unknown): number | null {
+    const n = ProjectsSpreadsheet.parseNumber(value);
+    if (n === null) return null;
+    const ratio = String(value).includes("%") || n > 1 ? n / 100 : n;
+    return Math.min(1, Math.max(0, ratio));
+  }
+
+  private static normalizeTodoStatus(value: string): TodoStatus {
+    const v = value.toLowerCase().replace(/[\s-]+/g, "_");
+    if (v === "in_progress" || v.includes("progress")) return "in_progress";
+    if (v === "done" || v.includes("done") || v.includes("clos")) return "done";
+    if (v.includes("block")) return "blocked";
+    return "pending";
+  }
+}
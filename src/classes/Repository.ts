@@ -0,0 +1,151 @@
+import { IProject } from "./Project";
+import { IUser } from "./User";
+
+/**
+ * Storage backend for serialized entities (projects with their todos, users...).
+ * Everything goes through plain objects (Project.toJSON / User.toJSON),
+ * so a backend never touches DOM or class instances.
+ */
+export interface Repository<T> {
+  /** Returns every stored item (empty array if nothing saved yet) */
+  loadAll(): Promise<T[]>;
+  /** Inserts or replaces an item by id */
+  save(item: T): Promise<void>;
+  /** Removes an item by id (no-op if missing) */
+  remove(id: string): Promise<void>;
+}
+
+export type ProjectRepository = Repository<IProject>;
+export type UserRepository = Repository<IUser>;
+
+// ----------------- localStorage -----------------
+
+export class LocalStorageRepository<T extends { id?: string }> implements Repository<T> {
+  private key: string;
+
+  constructor(key: string) {
+    this.key = key;
+  }
+
+  async loadAll(): Promise<T[]> {
+    return this.read();
+  }
+
+  // Read-modify-write stays synchronous (no await in between), so saves
+  // started in the same tick can't overwrite each other
+  async save(item: T): Promise<void> {
+    const items = this.read();
+    const index = items.findIndex((i) => i.id === item.id);
+    if (index >= 0) {
+      items[index] = item;
+    } else {
+      items.push(item);
+    }
+    localStorage.setItem(this.key, JSON.stringify(items));
+  }
+
+  async remove(id: string): Promise<void> {
+    const items = this.read();
+    localStorage.setItem(this.key, JSON.stringify(items.filter((i) => i.id !== id)));
+  }
+
+  private read(): T[] {
+    const raw = localStorage.getItem(this.key);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? (parsed as T[]) : [];
+    } catch (e) {
+      console.warn(`Stored data under "${this.key}" is corrupted, ignoring it.`, e);
+      return [];
+    }
+  }
+}
+
+export class LocalStorageProjectRepository extends LocalStorageRepository<IProject> {
+  constructor(key: string = "otacc-bim:projects") {
+    super(key);
+  }
+}
+
+export class LocalStorageUserRepository extends LocalStorageRepository<IUser> {
+  constructor(key: string = "otacc-bim:users") {
+    super(key);
+  }
+}
+
+// ----------------- IndexedDB -----------------
+
+export class IndexedDBRepository<T> implements Repository<T> {
+  // Every store of the app database (created on upgrade)
+  static readonly STORES = ["projects", "users"];
+  static readonly DB_VERSION = 2;
+
+  private dbName: string;
+  private storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(storeName: string, dbName: string = "otacc-bim") {
+    this.storeName = storeName;
+    this.dbName = dbName;
+  }
+
+  async loadAll(): Promise<T[]> {
+    const store = await this.getStore("readonly");
+    const result = await IndexedDBRepository.request(store.getAll());
+    return result as T[];
+  }
+
+  async save(item: T): Promise<void> {
+    const store = await this.getStore("readwrite");
+    await IndexedDBRepository.request(store.put(item));
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.getStore("readwrite");
+    await IndexedDBRepository.request(store.delete(id));
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  /** Opens the database once and reuses the connection */
+  private open(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    this.db = new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.dbName, IndexedDBRepository.DB_VERSION);
+      req.addEventListener("upgradeneeded", () => {
+        for (const name of IndexedDBRepository.STORES) {
+          if (!req.result.objectStoreNames.contains(name)) {
+            req.result.createObjectStore(name, { keyPath: "id" });
+          }
+        }
+      });
+      req.addEventListener("success", () => resolve(req.result));
+      req.addEventListener("error", () => reject(req.error));
+    });
+    return this.db;
+  }
+
+  private static request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      req.addEventListener("success", () => resolve(req.result));
+      req.addEventListener("error", () => reject(req.error));
+    });
+  }
+}
+
+export class IndexedDBProjectRepository extends IndexedDBRepository<IProject> {
+  constructor(dbName?: string) {
+    super("projects", dbName);
+  }
+}
+
+export class IndexedDBUserRepository extends IndexedDBRepository<IUser> {
+  constructor(dbName?: string) {
+    super("users", dbName);
+  }
+}
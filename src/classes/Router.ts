@@ -0,0 +1,101 @@
+export type Route =
+  | { page: "dashboard" }
+  | { page: "timeline" }
+  | { page: "calendar" }
+  | { page: "projects" }
+  | { page: "project"; projectId: string }
+  | { page: "todo"; projectId: string; todoId: string }
+  | { page: "users" }
+  | { page: "not-found"; path: string };
+
+/**
+ * Hash routes ("#/projects/:id/todos/:todoId"): links can be shared and the
+ * browser back / forward buttons move between pages. The query string stays
+ * free for the projects list search (see ProjectsManager.writeListUrl).
+ */
+export class Router {
+  route: Route = { page: "projects" };
+
+  // Called on start, on every hash change and on replace() navigations
+  onRoute: ((route: Route) => void) | null = null;
+
+  static readonly DEFAULT_PATH = "/projects";
+
+  /** Applies the current hash and follows the next changes */
+  start() {
+    window.addEventListener("hashchange", () => this.resolve());
+    this.resolve();
+  }
+
+  /** Goes to `path` ("/projects/abc"); `replace` keeps it out of the back history */
+  navigate(path: string, replace: boolean = false) {
+    if (replace) {
+      history.replaceState(history.state, "", `${location.pathname}${location.search}#${path}`);
+      this.resolve();
+    } else if (Router.parsePath(location.hash) === path) {
+      // Same hash: no hashchange event, apply it anyway (e.g. the nav button of the current page)
+      this.resolve();
+    } else {
+      location.hash = path;
+    }
+  }
+
+  go(route: Route, replace: boolean = false) {
+    this.navigate(Router.path(route), replace);
+  }
+
+  private resolve() {
+    this.route = Router.parse(location.hash);
+    this.onRoute?.(this.route);
+  }
+
+  /** "#/projects/abc/" => "/projects/abc" (empty hash => default page) */
+  private static parsePath(hash: string): string {
+    const path = hash.replace(/^#/, "").replace(/\/+$/, "");
+    return path || Router.DEFAULT_PATH;
+  }
+
+  static parse(hash: string): Route {
+    const path = Router.parsePath(hash);
+    const parts = path.split("/").slice(1);
+    let decoded: string[];
+    try {
+      decoded = parts.map((part) => decodeURIComponent(part));
+    } catch {
+      return { page: "not-found", path };
+    }
+    const [section, id, sub, subId] = decoded;
+
+    if (parts.length === 1) {
+      switch (section) {
+        case "dashboard":
+        case "timeline":
+        case "calendar":
+        case "projects":
+        case "users":
+          return { page: section };
+      }
+    }
+    if (section === "projects" && id) {
+      if (parts.length === 2) return { page: "project", projectId: id };
+      if (parts.length === 4 && sub === "todos" && subId) {
+        return { page: "todo", projectId: id, todoId: subId };
+      }
+    }
+    return { page: "not-found", path };
+  }
+
+  static path(route: Route): string {
+    const encode = encodeURIComponent;
+    switch (route.page) {
+      case "project":
+        return `/projects/${encode(route.projectId)}`;
+      case "todo":
+        return `/projects/${encode(route.projectId)}/todos/${encode(route.todoId)}`;
+      case "not-found":
+        return route.path;
+      default:
+        return `/${route.page}`;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { ITodo, Project } from "./Project";
+
+/** Inclusive range of calendar days (YYYY-MM-DD) */
+export interface DaySpan {
+  start: string;
+  end: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Timeline arithmetic, ToDo dependencies and critical path (no DOM) */
+export class Schedule {
+  /** "2024-03-30" + 2 => "2024-04-01" (UTC based, no DST surprises) */
+  static addDays(day: string, days: number): string {
+    return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  /** Whole days from `from` to `to` (negative when `to` is earlier) */
+  static daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+  }
+
+  /** Same YYYY-MM-DD the details page shows (project dates are stored as UTC midnight) */
+  static projectSpan(project: Project): DaySpan {
+    const start = project.startDate.toISOString().slice(0, 10);
+    const end = project.finishDate.toISOString().slice(0, 10);
+    return { start, end: end < start ? start : end };
+  }
+
+  /**
+   * Bar of a ToDo: start..end, a missing side falls back to the other one
+   * (or the due date). null = not scheduled at all.
+   */
+  static todoSpan(todo: ITodo): DaySpan | null {
+    const start = todo.startDate ?? todo.endDate ?? todo.dueDate;
+    const end = todo.endDate ?? todo.dueDate ?? todo.startDate;
+    if (!start || !end) return null;
+    return { start, end: end < start ? start : end };
+  }
+
+  /** Smallest range holding every span (null without spans) */
+  static range(spans: DaySpan[]): DaySpan | null {
+    if (!spans.length) return null;
+    return {
+      start: spans.reduce((min, s) => (s.start < min ? s.start : min), spans[0].start),
+      end: spans.reduce((max, s) => (s.end > max ? s.end : max), spans[0].end),
+    };
+  }
+
+  /** True when `todoId` depending on `dependsOn` would close a loop */
+  static wouldCycle(todos: ITodo[], todoId: string, dependsOn: string[]): boolean {
+    const byId = new Map(todos.map((t) => [t.id, t]));
+    const stack = [...dependsOn];
+    const seen = new Set<string>();
+    while (stack.length) {
+      const id = stack.pop()!;
+      if (id === todoId) return true;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      stack.push(...(byId.get(id)?.dependsOn ?? []));
+    }
+    return false;
+  }
+
+  /** Links whose dependent ToDo starts before its predecessor ends */
+  static isLate(predecessor: DaySpan, dependent: DaySpan): boolean {
+    return dependent.start <= predecessor.end;
+  }
+
+  /**
+   * Ids of the scheduled ToDos without slack. Each ToDo starts on its planned
+   * start or right after its predecessors (finish-to-start), whichever is later;
+   * the chain that drives the latest finish is critical. Empty on cycles.
+   */
+  static criticalPath(todos: ITodo[]): Set<string> {
+    const spans = new Map<string, DaySpan>();
+    for (const todo of todos) {
+      const span = Schedule.todoSpan(todo);
+      if (span) spans.set(todo.id, span);
+    }
+    if (!spans.size) return new Set();
+
+    const origin = Schedule.range([...spans.values()])!.start;
+    const duration = (id: string) => {
+      const span = spans.get(id)!;
+      return Schedule.daysBetween(span.start, span.end) + 1;
+    };
+    const preds = new Map<string, string[]>();
+    const succs = new Map<string, string[]>();
+    for (const id of spans.keys()) {
+      preds.set(id, []);
+      succs.set(id, []);
+    }
+    for (const todo of todos) {
+      if (!spans.has(todo.id)) continue;
+      for (const dep of todo.dependsOn ?? []) {
+        if (!spans.has(dep)) continue;
+        preds.get(todo.id)!.push(dep);
+        succs.get(dep)!.push(todo.id);
+      }
+    }
+
+    // Topological order (Kahn); leftovers mean a cycle
+    const order: string[] = [];
+    const pending = new Map([...preds].map(([id, p]) => [id, p.length]));
+    const ready = [...pending].filter(([, n]) => n === 0).map(([id]) => id);
+    while (ready.length) {
+      const id = ready.shift()!;
+      order.push(id);
+      for (const next of succs.get(id)!) {
+        pending.set(next, pending.get(next)! - 1);
+        if (pending.get(next) === 0) ready.push(next);
+      }
+    }
+    if (order.length !== spans.size) return new Set();
+
+    // Forward pass: earliest start / finish in days from the origin
+    const es = new Map<string, number>();
+    const ef = new Map<string, number>();
+    for (const id of order) {
+      const planned = Schedule.daysBetween(origin, spans.get(id)!.start);
+      const start = Math.max(planned, ...preds.get(id)!.map((p) => ef.get(p)!));
+      es.set(id, start);
+      ef.set(id, start + duration(id));
+    }
+    const finish = Math.max(...ef.values());
+
+    // Backward pass: latest start without moving the finish
+    const ls = new Map<string, number>();
+    for (const id of [...order].reverse()) {
+      const latestFinish = Math.min(finish, ...succs.get(id)!.map((s) => ls.get(s)!));
+      ls.set(id, latestFinish - duration(id));
+    }
+
+    return new Set(order.filter((id) => ls.get(id)! - es.get(id)! <= 0));
+  }
+}
@@ -0,0 +1,298 @@
+import { ITodo, Project } from "./Project";
+import { ProjectsManager } from "./ProjectsManager";
+import { DaySpan, Schedule } from "./Schedule";
+
+type TimelineRow =
+  | { kind: "project"; project: Project; span: DaySpan }
+  | { kind: "todo"; project: Project; todo: ITodo; span: DaySpan; critical: boolean };
+
+type BarDrag = {
+  bar: HTMLElement;
+  mode: "move" | "resize";
+  startX: number;
+  left: number; // px
+  width: number; // px
+  days: number; // current offset in days
+};
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/** Gantt of the main list projects (bars = start..finish) and their scheduled ToDos */
+export class TimelinePage {
+  ui: HTMLElement;
+  projects: ProjectsManager;
+
+  // Pixels per day ("zoom")
+  dayWidth: number = 16;
+  showTodos: boolean = true;
+
+  // Label click => project details (framing the ToDo of a ToDo row)
+  onOpenProject: ((projectId: string, todoId?: string) => void) | null = null;
+
+  // Must match .gantt-row / .gantt-label in style.css
+  static readonly ROW_HEIGHT = 32;
+  static readonly LABEL_WIDTH = 240;
+  // Empty days before / after the earliest / latest bar
+  static readonly PADDING_DAYS = 7;
+
+  private drag: BarDrag | null = null;
+
+  constructor(container: HTMLElement, projects: ProjectsManager) {
+    this.ui = container;
+    this.projects = projects;
+
+    const zoom = this.ui.querySelector("#timeline-zoom") as HTMLSelectElement | null;
+    zoom?.addEventListener("change", () => {
+      this.dayWidth = Number(zoom.value) || 16;
+      this.render();
+    });
+
+    const todosToggle = this.ui.querySelector("#timeline-show-todos") as HTMLInputElement | null;
+    todosToggle?.addEventListener("change", () => {
+      this.showTodos = todosToggle.checked;
+      this.render();
+    });
+  }
+
+  get isVisible(): boolean {
+    return this.ui.style.display !== "none";
+  }
+
+  render() {
+    const chart = this.ui.querySelector("#timeline-chart") as HTMLElement | null;
+    if (!chart) return;
+    chart.innerHTML = "";
+
+    const rows = this.getRows();
+    const today = Project.toDay(new Date());
+    const range = Schedule.range([...rows.map((r) => r.span), { start: today, end: today }])!;
+    const origin = Schedule.addDays(range.start, -TimelinePage.PADDING_DAYS);
+    const days = Schedule.daysBetween(origin, range.end) + 1 + TimelinePage.PADDING_DAYS;
+    const trackWidth = days * this.dayWidth;
+
+    const inner = document.createElement("div");
+    inner.className = "gantt-inner";
+    inner.style.width = `${TimelinePage.LABEL_WIDTH + trackWidth}px`;
+    inner.append(this.createScale(origin, days));
+
+    if (!rows.length) {
+      const empty = document.createElement("p");
+      empty.className = "todo-empty";
+      empty.textContent = "No projects to schedule yet.";
+      inner.append(empty);
+    }
+
+    rows.forEach((row) => inner.append(this.createRow(row, origin)));
+
+    inner.append(this.createLinks(rows, origin, trackWidth));
+
+    const todayLine = document.createElement("div");
+    todayLine.className = "gantt-today";
+    todayLine.title = `Today (${today})`;
+    todayLine.style.left = `${TimelinePage.LABEL_WIDTH + this.offset(origin, today)}px`;
+    inner.append(todayLine);
+
+    chart.append(inner);
+  }
+
+  /** Each project followed by its scheduled ToDos (bar order = start date) */
+  private getRows(): TimelineRow[] {
+    const rows: TimelineRow[] = [];
+    const projects = [...this.projects.getProjectsInView("active")].sort((a, b) =>
+      Schedule.projectSpan(a).start.localeCompare(Schedule.projectSpan(b).start)
+    );
+
+    for (const project of projects) {
+      rows.push({ kind: "project", project, span: Schedule.projectSpan(project) });
+      if (!this.showTodos) continue;
+
+      const critical = Schedule.criticalPath(project.todos);
+      const scheduled = project.todos
+        .map((todo) => ({ todo, span: Schedule.todoSpan(todo) }))
+        .filter((t): t is { todo: ITodo; span: DaySpan } => t.span !== null)
+        .sort((a, b) => a.span.start.localeCompare(b.span.start));
+      for (const { todo, span } of scheduled) {
+        rows.push({ kind: "todo", project, todo, span, critical: critical.has(todo.id) });
+      }
+    }
+    return rows;
+  }
+
+  private offset(origin: string, day: string): number {
+    return Schedule.daysBetween(origin, day) * this.dayWidth;
+  }
+
+  /** Month labels + a tick per week (Mondays) */
+  private createScale(origin: string, days: number): HTMLElement {
+    const scale = document.createElement("div");
+    scale.className = "gantt-row gantt-scale";
+    scale.innerHTML = `<div class="gantt-label"></div><div class="gantt-track"></div>`;
+    const track = scale.querySelector(".gantt-track") as HTMLElement;
+
+    for (let i = 0; i < days; i++) {
+      const day = Schedule.addDays(origin, i);
+      const date = new Date(`${day}T00:00:00Z`);
+      const isMonthStart = date.getUTCDate() === 1 || i === 0;
+      const isMonday = date.getUTCDay() === 1;
+      if (!isMonthStart && !isMonday) continue;
+
+      const tick = document.createElement("span");
+      tick.className = isMonthStart ? "gantt-tick gantt-tick-month" : "gantt-tick";
+      tick.style.left = `${i * this.dayWidth}px`;
+      tick.textContent = isMonthStart
+        ? date.toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" })
+        : this.dayWidth >= 12
+          ? String(date.getUTCDate())
+          : "";
+      track.append(tick);
+    }
+    return scale;
+  }
+
+  private createRow(row: TimelineRow, origin: string): HTMLElement {
+    const el = document.createElement("div");
+    el.className = `gantt-row gantt-row-${row.kind}`;
+    el.innerHTML = `
+      <div class="gantt-label"></div>
+      <div class="gantt-track">
+        <div class="gantt-bar"><span class="gantt-bar-text"></span><span class="gantt-handle"></span></div>
+      </div>
+    `;
+
+    const label = el.querySelector(".gantt-label") as HTMLElement;
+    const bar = el.querySelector(".gantt-bar") as HTMLElement;
+    const title = row.kind === "project" ? row.project.name : row.todo.title;
+    label.textContent = title;
+    label.title = `${title} (${row.span.start} → ${row.span.end})`;
+    (bar.querySelector(".gantt-bar-text") as HTMLElement).textContent =
+      row.kind === "project" ? Project.formatProgress(row.project) : "";
+
+    bar.style.left = `${this.offset(origin, row.span.start)}px`;
+    bar.style.width = `${(Schedule.daysBetween(row.span.start, row.span.end) + 1) * this.dayWidth}px`;
+    bar.dataset.state = row.kind === "project" ? row.project.status : row.todo.status;
+    bar.title = label.title;
+    if (row.kind === "todo") {
+      bar.dataset.todoId = row.todo.id;
+      bar.classList.toggle("gantt-bar-critical", row.critical);
+      if (row.critical) bar.title += " · critical path";
+    }
+
+    label.addEventListener("click", () =>
+      this.onOpenProject?.(row.project.id, row.kind === "todo" ? row.todo.id : undefined)
+    );
+
+    const editable =
+      row.kind === "project"
+        ? this.projects.can(row.project, "project:editSchedule")
+        : this.projects.can(row.project, "todo:edit");
+    bar.classList.toggle("gantt-bar-editable", editable);
+    if (editable) this.bindDrag(bar, row);
+    return el;
+  }
+
+  /** Finish-to-start arrows between the ToDo bars of the same project */
+  private createLinks(rows: TimelineRow[], origin: string, width: number): SVGSVGElement {
+    const h = TimelinePage.ROW_HEIGHT;
+    const svg = document.createElementNS(SVG_NS, "svg");
+    svg.classList.add("gantt-links");
+    svg.setAttribute("width", String(width));
+    svg.setAttribute("height", String((rows.length + 1) * h));
+    svg.style.left = `${TimelinePage.LABEL_WIDTH}px`;
+    svg.innerHTML = `
+      <defs>
+        <marker id="gantt-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M0,0 L6,3 L0,6 z" fill="currentColor" />
+        </marker>
+      </defs>
+    `;
+
+    // Row index => vertical center (the scale takes the first row)
+    const todoRows = new Map<string, { index: number; row: Extract<TimelineRow, { kind: "todo" }> }>();
+    rows.forEach((row, index) => {
+      if (row.kind === "todo") todoRows.set(row.todo.id, { index, row });
+    });
+
+    for (const { index, row } of todoRows.values()) {
+      for (const depId of row.todo.dependsOn ?? []) {
+        const pred = todoRows.get(depId);
+        if (!pred || pred.row.project !== row.project) continue;
+
+        const x1 = this.offset(origin, pred.row.span.end) + this.dayWidth;
+        const y1 = (pred.index + 1) * h + h / 2;
+        const x2 = this.offset(origin, row.span.start);
+        const y2 = (index + 1) * h + h / 2;
+
+        const path = document.createElementNS(SVG_NS, "path");
+        path.setAttribute("d", `M${x1},${y1} h6 V${y2} H${x2}`);
+        path.setAttribute("marker-end", "url(#gantt-arrow)");
+        path.classList.add("gantt-link");
+        if (pred.row.critical && row.critical) path.classList.add("gantt-link-critical");
+        if (Schedule.isLate(pred.row.span, row.span)) path.classList.add("gantt-link-late");
+        svg.append(path);
+      }
+    }
+    return svg;
+  }
+
+  // ----------------- Drag to reschedule -----------------
+
+  /** Drag the bar to move it, drag its right handle to change the end */
+  private bindDrag(bar: HTMLElement, row: TimelineRow) {
+    bar.addEventListener("pointerdown", (e) => {
+      if (e.button !== 0) return;
+      e.preventDefault();
+      bar.setPointerCapture(e.pointerId);
+      this.drag = {
+        bar,
+        mode: (e.target as HTMLElement).closest(".gantt-handle") ? "resize" : "move",
+        startX: e.clientX,
+        left: bar.offsetLeft,
+        width: bar.offsetWidth,
+        days: 0,
+      };
+      bar.classList.add("gantt-bar-dragging");
+    });
+
+    bar.addEventListener("pointermove", (e) => {
+      const drag = this.drag;
+      if (!drag || drag.bar !== bar) return;
+      const days = Math.round((e.clientX - drag.startX) / this.dayWidth);
+      if (drag.mode === "resize") {
+        // Never shorter than one day
+        drag.days = Math.max(days, 1 - Math.round(drag.width / this.dayWidth));
+        bar.style.width = `${drag.width + drag.days * this.dayWidth}px`;
+      } else {
+        drag.days = days;
+        bar.style.left = `${drag.left + days * this.dayWidth}px`;
+      }
+    });
+
+    const finish = () => {
+      const drag = this.drag;
+      if (!drag || drag.bar !== bar) return;
+      this.drag = null;
+      bar.classList.remove("gantt-bar-dragging");
+      if (drag.days === 0) return;
+
+      const span: DaySpan = {
+        start: drag.mode === "move" ? Schedule.addDays(row.span.start, drag.days) : row.span.start,
+        end: Schedule.addDays(row.span.end, drag.days),
+      };
+      try {
+        if (row.kind === "project") {
+          this.projects.rescheduleProject(row.project.id, span);
+        } else {
+          this.projects.rescheduleTodo(row.project.id, row.todo.id, span);
+        }
+      } catch (err) {
+        alert(String(err));
+      }
+      this.render();
+    };
+    bar.addEventListener("pointerup", finish);
+    bar.addEventListener("pointercancel", () => {
+      this.drag = null;
+      this.render();
+    });
+  }
+}
@@ -0,0 +1,102 @@
+import { ITodo, Project, TodoStatus } from "./Project";
+
+export type TodoSort =
+  | "created-asc"
+  | "created-desc"
+  | "updated"
+  | "status"
+  | "board"
+  | "due"
+  | "priority"
+  | "title";
+
+export type TodoDueFilter = "all" | "overdue" | "week" | "none";
+
+/** Current search / filter / sort of the ToDo list (kept between re-renders) */
+export interface TodoQuery {
+  text: string;
+  status: TodoStatus | "all";
+  assignee: string | "all" | "unassigned"; // user id
+  due: TodoDueFilter;
+  sort: TodoSort;
+}
+
+/** Pure list operations behind the ToDo card header (no DOM) */
+export class TodoFilter {
+  static readonly STATUSES: TodoStatus[] = ["pending", "in_progress", "blocked", "done"];
+
+  static readonly STATUS_LABELS: Record<TodoStatus, string> = {
+    pending: "Pending",
+    in_progress: "In progress",
+    done: "Done",
+    blocked: "Blocked",
+  };
+
+  static defaultQuery(): TodoQuery {
+    return { text: "", status: "all", assignee: "all", due: "all", sort: "created-asc" };
+  }
+
+  /** Filtered + sorted copy (the project's own list is never reordered) */
+  static apply(todos: ITodo[], query: TodoQuery, today: Date = new Date()): ITodo[] {
+    const text = query.text.trim().toLowerCase();
+    const inAWeek = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 7);
+    const result = todos.filter((t) => {
+      if (text && !t.title.toLowerCase().includes(text)) return false;
+      if (query.status !== "all" && t.status !== query.status) return false;
+      if (query.assignee === "unassigned" && t.assigneeId) return false;
+      if (
+        query.assignee !== "all" &&
+        query.assignee !== "unassigned" &&
+        t.assigneeId !== query.assignee
+      ) {
+        return false;
+      }
+      if (query.due === "overdue" && !Project.isOverdue(t, today)) return false;
+      if (query.due === "none" && t.dueDate) return false;
+      if (
+        query.due === "week" &&
+        (!t.dueDate || t.status === "done" || t.dueDate > Project.toDay(inAWeek))
+      ) {
+        return false;
+      }
+      return true;
+    });
+
+    const time = (iso: string) => new Date(iso).getTime() || 0;
+    const byStatus = (t: ITodo) => TodoFilter.STATUSES.indexOf(t.status);
+    const byPriority = (t: ITodo) => Project.TODO_PRIORITIES.indexOf(t.priority);
+    switch (query.sort) {
+      case "created-desc":
+        return result.sort((a, b) => time(b.createdAt) - time(a.createdAt));
+      case "updated":
+        return result.sort((a, b) => time(b.updatedAt) - time(a.updatedAt));
+      case "status":
+        return result.sort((a, b) => byStatus(a) - byStatus(b));
+      case "board":
+        return result.sort((a, b) => byStatus(a) - byStatus(b) || Project.compareRank(a, b));
+      case "due":
+        // Earliest first, no due date last
+        return result.sort((a, b) => (a.dueDate ?? "9999").localeCompare(b.dueDate ?? "9999"));
+      case "priority":
+        return result.sort((a, b) => byPriority(b) - byPriority(a));
+      case "title":
+        return result.sort((a, b) => a.title.localeCompare(b.title));
+      default:
+        return result.sort((a, b) => time(a.createdAt) - time(b.createdAt));
+    }
+  }
+
+  /** Board columns: every status, ToDos in rank order */
+  static columns(todos: ITodo[]): Record<TodoStatus, ITodo[]> {
+    const columns: Record<TodoStatus, ITodo[]> = { pending: [], in_progress: [], done: [], blocked: [] };
+    for (const todo of todos) columns[todo.status].push(todo);
+    for (const status of TodoFilter.STATUSES) columns[status].sort(Project.compareRank);
+    return columns;
+  }
+
+  static countByStatus(todos: ITodo[]): Record<TodoStatus, number> {
+    const counts: Record<TodoStatus, number> = { pending: 0, in_progress: 0, done: 0, blocked: 0 };
+    for (const todo of todos) counts[todo.status]++;
+    return counts;
+  }
+}
@@ -0,0 +1,69 @@
+import { v4 as uuidv4 } from "uuid";
+import { Project, UserRole } from "./Project";
+
+export interface IUser {
+  id?: string;
+  name: string;
+  email: string;
+  role: UserRole;
+
+  // UI extras to keep stable between sessions
+  iconBg?: string;
+}
+
+type UpdateUserData = Partial<Omit<IUser, "id">>;
+
+export class User {
+  // Domain
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+
+  // UI-related stable properties
+  iconBg: string;
+
+  constructor(data: IUser) {
+    this.id = data.id ?? uuidv4();
+    this.name = (data.name ?? "").trim();
+    this.email = User.normalizeEmail(data.email);
+    this.role = Project.normalizeRole(data.role);
+
+    this.iconBg =
+      data.iconBg ??
+      Project.ICON_COLORS[Math.floor(Math.random() * Project.ICON_COLORS.length)];
+  }
+
+  // ---------- Public API (used by UsersManager) ----------
+
+  /** Updates domain fields (UsersManager refreshes the card) */
+  update(data: UpdateUserData) {
+    if (typeof data.name === "string") this.name = data.name.trim();
+    if (typeof data.email === "string") this.email = User.normalizeEmail(data.email);
+    if (data.role) this.role = Project.normalizeRole(data.role);
+    if (typeof data.iconBg === "string" && data.iconBg.trim()) {
+      this.iconBg = data.iconBg.trim();
+    }
+  }
+
+  /** Serialization for storage / export */
+  toJSON(): IUser {
+    return {
+      id: this.id,
+      name: this.name,
+      email: this.email,
+      role: this.role,
+      iconBg: this.iconBg,
+    };
+  }
+
+  // ---------- Helpers ----------
+
+  static normalizeEmail(value: unknown): string {
+    return String(value ?? "").trim().toLowerCase();
+  }
+
+  static isValidEmail(value: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+  }
+}
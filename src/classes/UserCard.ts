@@ -0,0 +1,61 @@
+import { Project } from "./Project";
+import { User } from "./User";
+
+/** Card of the users page; UsersManager calls sync() after every change of its user */
+export class UserCard {
+  ui: HTMLDivElement;
+  user: User;
+
+  constructor(user: User) {
+    this.user = user;
+    this.ui = this.createUI();
+    this.sync();
+  }
+
+  /** Takes the card out of the page */
+  remove() {
+    this.ui.remove();
+  }
+
+  private createUI(): HTMLDivElement {
+    const card = document.createElement("div");
+    card.className = "project-card user-card";
+    card.innerHTML = `
+      <div class="card-header">
+        <div class="project-icon" data-user-icon></div>
+        <div class="project-main">
+          <h5 data-user-name></h5>
+          <p data-user-email></p>
+        </div>
+        <div class="user-card-actions">
+          <span class="material-icons-round action-icon" data-user-edit title="Edit">edit</span>
+          <span class="material-icons-round action-icon" data-user-delete title="Delete">delete</span>
+        </div>
+      </div>
+
+      <div class="card-content">
+        <div class="card-property">
+          <p class="muted">Role</p>
+          <p data-user-role></p>
+        </div>
+      </div>
+    `;
+    return card;
+  }
+
+  /** Refreshes card fields from the user */
+  sync() {
+    const user = this.user;
+    this.ui.style.setProperty("--project-icon-bg", user.iconBg);
+
+    const icon = this.ui.querySelector("[data-user-icon]") as HTMLElement | null;
+    const name = this.ui.querySelector("[data-user-name]") as HTMLElement | null;
+    const email = this.ui.querySelector("[data-user-email]") as HTMLElement | null;
+    const role = this.ui.querySelector("[data-user-role]") as HTMLElement | null;
+
+    if (icon) icon.textContent = Project.getProjectInitials(user.name);
+    if (name) name.textContent = user.name;
+    if (email) email.textContent = user.email;
+    if (role) role.textContent = user.role;
+  }
+}
@@ -0,0 +1,247 @@
+import { IUser, User } from "./User";
+import { UserCard } from "./UserCard";
+import { UserRepository } from "./Repository";
+
+export class UsersManager {
+  list: User[] = [];
+  ui: HTMLElement;
+
+  // One card per user, by user id
+  private cards: Map<string, UserCard> = new Map();
+
+  // Optional persistence backend (localStorage, IndexedDB, HTTP...)
+  repository: UserRepository | null;
+
+  // Called after a user is deleted (projects drop the assignments)
+  onUserDeleted: ((userId: string) => void) | null = null;
+
+  constructor(container: HTMLElement, repository: UserRepository | null = null) {
+    this.ui = container;
+    this.repository = repository;
+
+    this.bindUsersPage();
+  }
+
+  // ----------------- Persistence -----------------
+
+  /** Rehydrates stored users */
+  async load() {
+    let stored: IUser[] = [];
+    if (this.repository) {
+      try {
+        stored = await this.repository.loadAll();
+      } catch (err) {
+        console.error("Users could not be loaded from storage.", err);
+      }
+    }
+
+    for (const data of stored) {
+      if (typeof data.id === "string" && this.getUser(data.id)) continue;
+      this.mountUser(new User(data));
+    }
+    this.renderEmptyState();
+  }
+
+  /** Saves a user snapshot (fire & forget, errors are only logged) */
+  private persist(user: User) {
+    if (!this.repository) return;
+    this.repository.save(user.toJSON()).catch((err) => {
+      console.error(`User "${user.name}" could not be saved.`, err);
+    });
+  }
+
+  private unpersist(id: string) {
+    if (!this.repository) return;
+    this.repository.remove(id).catch((err) => {
+      console.error(`User ${id} could not be removed from storage.`, err);
+    });
+  }
+
+  // ----------------- CRUD Users -----------------
+
+  newUser(data: IUser) {
+    this.validate(data);
+
+    const user = new User(data);
+    this.mountUser(user);
+    this.persist(user);
+    this.renderEmptyState();
+
+    return user;
+  }
+
+  /** Binds card actions, renders the card and registers the user */
+  private mountUser(user: User) {
+    const card = new UserCard(user);
+
+    const editBtn = card.ui.querySelector("[data-user-edit]") as HTMLElement | null;
+    editBtn?.addEventListener("click", () => this.openUserModal(user));
+
+    const deleteBtn = card.ui.querySelector("[data-user-delete]") as HTMLElement | null;
+    deleteBtn?.addEventListener("click", () => {
+      if (!confirm(`Delete "${user.name}"? They will be unassigned from every project.`)) return;
+      this.deleteUser(user.id);
+    });
+
+    this.ui.append(card.ui);
+    this.cards.set(user.id, card);
+    this.list.push(user);
+  }
+
+  /** Takes the card out of the page and the user out of the list */
+  private unmountUser(user: User) {
+    this.cards.get(user.id)?.remove();
+    this.cards.delete(user.id);
+    this.list = this.list.filter((u) => u !== user);
+  }
+
+  /** Applies changes to a listed user and refreshes its card */
+  private applyUpdate(user: User, data: Partial<IUser>) {
+    user.update(data);
+    this.cards.get(user.id)?.sync();
+  }
+
+  getUser(id: string) {
+    return this.list.find((u) => u.id === id);
+  }
+
+  /** Find user by email (case-insensitive) */
+  getUserByEmail(email: string) {
+    const e = User.normalizeEmail(email);
+    return this.list.find((u) => u.email === e);
+  }
+
+  updateUser(id: string, data: Partial<IUser>) {
+    const user = this.getUser(id);
+    if (!user) return;
+
+    this.validate({ ...user.toJSON(), ...data }, user.id);
+    this.applyUpdate(user, data);
+    this.persist(user);
+  }
+
+  deleteUser(id: string) {
+    const user = this.getUser(id);
+    if (!user) return;
+    this.unmountUser(user);
+    this.unpersist(id);
+    this.renderEmptyState();
+
+    this.onUserDeleted?.(id);
+  }
+
+  /** Imported users: replaces the user with the same id or creates it */
+  upsertUser(data: IUser): User {
+    const existing = typeof data.id === "string" ? this.getUser(data.id) : undefined;
+    if (existing) {
+      this.applyUpdate(existing, data);
+      this.persist(existing);
+      return existing;
+    }
+    return this.newUser(data);
+  }
+
+  /** Plain copy of every user (undo / redo of imports) */
+  snapshot(): IUser[] {
+    return this.list.map((u) => u.toJSON());
+  }
+
+  /** Brings the list back to a snapshot (no validation, no unassignment) */
+  restoreSnapshot(users: IUser[]) {
+    const ids = new Set(users.map((u) => u.id));
+    for (const user of [...this.list]) {
+      if (ids.has(user.id)) continue;
+      this.unmountUser(user);
+      this.unpersist(user.id);
+    }
+
+    for (const data of users) {
+      const existing = typeof data.id === "string" ? this.getUser(data.id) : undefined;
+      const user = existing ?? new User(data);
+      if (existing) {
+        this.applyUpdate(existing, data);
+      } else {
+        this.mountUser(user);
+      }
+      this.persist(user);
+    }
+    this.renderEmptyState();
+  }
+
+  /** Name required, valid and unique email */
+  private validate(data: IUser, ignoreId: string | null = null) {
+    const name = (data.name ?? "").trim();
+    if (name.length < 2) {
+      throw new Error("User name must be at least 2 characters long.");
+    }
+
+    const email = User.normalizeEmail(data.email);
+    if (!User.isValidEmail(email)) {
+      throw new Error(`"${data.email}" is not a valid email address.`);
+    }
+    const emailInUse = this.list.some((u) => u.id !== ignoreId && u.email === email);
+    if (emailInUse) {
+      throw new Error(`A user with the email "${email}" already exists`);
+    }
+  }
+
+  // ----------------- Users page -----------------
+
+  private renderEmptyState() {
+    const empty = document.getElementById("users-empty") as HTMLElement | null;
+    if (empty) empty.hidden = this.list.length > 0;
+  }
+
+  private bindUsersPage() {
+    const newUserBtn = document.getElementById("new-user-btn") as HTMLElement | null;
+    newUserBtn?.addEventListener("click", () => this.openUserModal(null));
+
+    const modal = document.getElementById("user-modal") as HTMLDialogElement | null;
+    const form = document.getElementById("user-form") as HTMLFormElement | null;
+    if (!modal || !form) return;
+
+    form.addEventListener("submit", (e) => {
+      e.preventDefault();
+      const formData = new FormData(form);
+
+      const userId = String(formData.get("userId") ?? "").trim(); // hidden field
+      const data: IUser = {
+        name: String(formData.get("name") ?? "").trim(),
+        email: String(formData.get("email") ?? "").trim(),
+        role: String(formData.get("role") ?? "architect") as IUser["role"],
+      };
+
+      try {
+        if (userId) {
+          this.updateUser(userId, data);
+        } else {
+          this.newUser(data);
+        }
+        form.reset();
+        modal.close();
+      } catch (err) {
+        alert(String(err));
+      }
+    });
+  }
+
+  private openUserModal(user: User | null) {
+    const modal = document.getElementById("user-modal") as HTMLDialogElement | null;
+    const form = document.getElementById("user-form") as HTMLFormElement | null;
+    if (!modal || !form) return;
+
+    const title = form.querySelector("[data-user-modal-title]") as HTMLElement | null;
+    const idInput = form.querySelector("[name='userId']") as HTMLInputElement | null;
+    const nameInput = form.querySelector("[name='name']") as HTMLInputElement | null;
+    const emailInput = form.querySelector("[name='email']") as HTMLInputElement | null;
+    const roleSelect = form.querySelector("[name='role']") as HTMLSelectElement | null;
+
+    if (title) title.textContent = user ? "Edit User" : "New User";
+    if (idInput) idInput.value = user?.id ?? "";
+    if (nameInput) nameInput.value = user?.name ?? "";
+    if (emailInput) emailInput.value = user?.email ?? "";
+    if (roleSelect) roleSelect.value = user?.role ?? "architect";
+
+    modal.showModal();
+  }
+}
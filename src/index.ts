@@ -1,5 +1,20 @@
-import { IProject, ProjectStatus, UserRole } from "./classes/Project";
+import { IProject, Project } from "./classes/Project";
 import { ProjectsManager } from "./classes/ProjectsManager";
+import { UsersManager } from "./classes/UsersManager";
+import { ModelFileStore } from "./classes/ModelFileStore";
+import { Budget } from "./classes/Budget";
+import { DashboardPage } from "./classes/DashboardPage";
+import { TimelinePage } from "./classes/TimelinePage";
+import { CalendarPage } from "./classes/CalendarPage";
+import { Route, Router } from "./classes/Router";
+import {
+  IndexedDBProjectRepository,
+  IndexedDBUserRepository,
+  LocalStorageProjectRepository,
+  LocalStorageUserRepository,
+  ProjectRepository,
+  UserRepository,
+} from "./classes/Repository";
 
 function showModal(id: string) {
   const modal = document.getElementById(id);
@@ -19,67 +34,222 @@ function closeModal(id: string) {
   }
 }
 
-/** Normalize strings coming from <select> options */
-function normalizeRole(value: unknown): UserRole {
-  const v = String(value ?? "").trim().toLowerCase();
-  if (v === "architect") return "architect";
-  if (v === "engineer") return "engineer";
-  if (v === "developer") return "developer";
-  return "architect";
+// ---------------- App bootstrap ----------------
+
+const projectsListUI = document.getElementById("projects-list") as HTMLElement | null;
+if (!projectsListUI) {
+  throw new Error("projects-list container was not found. Check index.html id='projects-list'.");
 }
 
-function normalizeStatus(value: unknown): ProjectStatus {
-  const v = String(value ?? "").trim().toLowerCase();
-  if (v === "pending") return "pending";
-  if (v === "active") return "active";
-  if (v === "finished") return "finished";
-  if (v.includes("pend")) return "pending";
-  if (v.includes("acti")) return "active";
-  if (v.includes("fin")) return "finished";
-  return "pending";
+const usersListUI = document.getElementById("users-list") as HTMLElement | null;
+if (!usersListUI) {
+  throw new Error("users-list container was not found. Check index.html id='users-list'.");
 }
 
-function normalizeFinishDate(value: unknown): Date {
-  const raw = String(value ?? "").trim();
-  if (!raw) return new Date(); // default if not specified
-  const d = new Date(raw);
-  if (Number.isNaN(d.getTime())) return new Date();
-  return d;
+// IndexedDB when available (bigger quota), localStorage otherwise
+const hasIndexedDB = "indexedDB" in window;
+const repository: ProjectRepository = hasIndexedDB
+  ? new IndexedDBProjectRepository()
+  : new LocalStorageProjectRepository();
+const userRepository: UserRepository = hasIndexedDB
+  ? new IndexedDBUserRepository()
+  : new LocalStorageUserRepository();
+
+const usersManager = new UsersManager(usersListUI, userRepository);
+const projectsManager = new ProjectsManager(
+  projectsListUI,
+  repository,
+  new ModelFileStore(),
+  usersManager
+);
+usersManager.onUserDeleted = (userId) => projectsManager.unassignUser(userId);
+
+const router = new Router();
+projectsManager.router = router;
+
+const dashboardUI = document.getElementById("dashboard-page") as HTMLElement | null;
+const dashboard = dashboardUI ? new DashboardPage(dashboardUI, projectsManager) : null;
+
+const timelineUI = document.getElementById("timeline-page") as HTMLElement | null;
+const timeline = timelineUI ? new TimelinePage(timelineUI, projectsManager) : null;
+if (timeline) timeline.onOpenProject = openProject;
+
+const calendarUI = document.getElementById("calendar-page") as HTMLElement | null;
+const calendar = calendarUI ? new CalendarPage(calendarUI, projectsManager) : null;
+if (calendar) calendar.onOpenProject = openProject;
+
+// Users first: project members / assignees are resolved against them.
+// The first route waits for the projects ("#/projects/:id" links); it still
+// starts when storage fails, so the page isn't left blank.
+usersManager
+  .load()
+  .then(() => projectsManager.load())
+  .catch((err) => {
+    console.error("Stored data could not be loaded.", err);
+    alert(`Stored data could not be loaded: ${String(err)}`);
+  })
+  .finally(() => router.start());
+
+// ---------------- Routing / sidebar navigation ----------------
+
+/** Shows one top-level page and hides the others */
+function showPage(id: string) {
+  for (const pageId of [
+    "dashboard-page",
+    "timeline-page",
+    "calendar-page",
+    "projects-page",
+    "project-details",
+    "users-page",
+    "not-found-page",
+  ]) {
+    const page = document.getElementById(pageId);
+    if (page) page.style.display = pageId === id ? "flex" : "none";
+  }
 }
 
-// ---------------- App bootstrap ----------------
+/** Project details, framing one of its ToDos when `todoId` is given */
+function openProject(projectId: string, todoId?: string) {
+  router.go(todoId ? { page: "todo", projectId, todoId } : { page: "project", projectId });
+}
 
-const projectsListUI = document.getElementById("projects-list") as HTMLElement | null;
-if (!projectsListUI) {
-  throw new Error("projects-list container was not found. Check index.html id='projects-list'.");
+function showNotFound(message: string) {
+  const text = document.querySelector("#not-found-page [data-not-found-message]") as HTMLElement | null;
+  if (text) text.textContent = message;
+  showPage("not-found-page");
 }
 
-const projectsManager = new ProjectsManager(projectsListUI);
+/** Every page switch goes through the URL hash (links, reloads, back / forward) */
+router.onRoute = (route: Route) => {
+  if (route.page !== "project" && route.page !== "todo") projectsManager.closeDetails();
 
-// ---------------- Sidebar navigation ----------------
+  switch (route.page) {
+    case "dashboard":
+      dashboard?.render();
+      showPage("dashboard-page");
+      break;
+    case "timeline":
+      showPage("timeline-page");
+      timeline?.render();
+      break;
+    case "calendar":
+      showPage("calendar-page");
+      calendar?.render();
+      break;
+    case "projects":
+      showPage("projects-page");
+      break;
+    case "users":
+      showPage("users-page");
+      break;
+    case "project":
+    case "todo": {
+      const todoId = route.page === "todo" ? route.todoId : null;
+      if (projectsManager.openDetails(route.projectId, todoId)) {
+        showPage("project-details");
+        break;
+      }
+      const project = projectsManager.getProject(route.projectId);
+      projectsManager.closeDetails();
+      showNotFound(
+        project && !project.isTrashed
+          ? `The ToDo doesn't exist in "${project.name}" (anymore).`
+          : "The project doesn't exist or was moved to the trash."
+      );
+      break;
+    }
+    default:
+      showNotFound(`There is no page at "#${route.path}".`);
+  }
+
+  // Project / ToDo links belong to "Projects"
+  const section = route.page === "project" || route.page === "todo" ? "projects" : route.page;
+  document.querySelectorAll<HTMLElement>("#nav-buttons li").forEach((item) => {
+    item.classList.toggle("active", item.id === `nav-${section}`);
+  });
+};
+
+document.getElementById("nav-dashboard")?.addEventListener("click", () => router.go({ page: "dashboard" }));
+document.getElementById("nav-timeline")?.addEventListener("click", () => router.go({ page: "timeline" }));
+document.getElementById("nav-calendar")?.addEventListener("click", () => router.go({ page: "calendar" }));
+
+// Charts / KPIs drill down into the projects list
+if (dashboard) {
+  dashboard.onDrillDown = (filter) => {
+    projectsManager.setListFilter(filter);
+    router.go({ page: "projects" });
+  };
+  dashboard.onOpenProject = openProject;
+}
 
 // ✅ Click on sidebar "Projects" returns to initial UI (projects list)
 const navProjects = document.getElementById("nav-projects");
 if (navProjects) {
   navProjects.addEventListener("click", () => {
-    const projectsPage = document.getElementById("projects-page");
-    const detailsPage = document.getElementById("project-details");
-    if (!(projectsPage && detailsPage)) return;
-
-    detailsPage.style.display = "none";
-    projectsPage.style.display = "flex";
+    projectsManager.setListFilter(null);
+    router.go({ page: "projects" });
   });
 }
 
-// Optional: placeholder for Users
-const navUsers = document.getElementById("nav-users");
-if (navUsers) {
-  navUsers.addEventListener("click", () => {
-    // For now: do nothing or show a message
-    // alert("Users page not implemented yet.");
-  });
+document.getElementById("nav-users")?.addEventListener("click", () => router.go({ page: "users" }));
+
+document
+  .getElementById("not-found-back-btn")
+  ?.addEventListener("click", () => router.go({ page: "projects" }));
+
+// ---------------- Undo / Redo ----------------
+
+const undoBtn = document.getElementById("undo-btn");
+const redoBtn = document.getElementById("redo-btn");
+
+function syncHistoryButtons() {
+  const { nextUndo, nextRedo } = projectsManager.history;
+  if (undoBtn) {
+    undoBtn.classList.toggle("disabled", !nextUndo);
+    undoBtn.title = nextUndo ? `Undo: ${nextUndo} (Ctrl+Z)` : "Nothing to undo";
+  }
+  if (redoBtn) {
+    redoBtn.classList.toggle("disabled", !nextRedo);
+    redoBtn.title = nextRedo ? `Redo: ${nextRedo} (Ctrl+Shift+Z)` : "Nothing to redo";
+  }
 }
 
+projectsManager.history.onChange = syncHistoryButtons;
+syncHistoryButtons();
+
+// Open overview pages follow every change (edits, drags, imports, undo / redo)
+function refreshOverviews() {
+  if (dashboard?.isVisible) dashboard.render();
+  if (timeline?.isVisible) timeline.render();
+  if (calendar?.isVisible) calendar.render();
+}
+projectsManager.events.subscribe("projectCreated", refreshOverviews);
+projectsManager.events.subscribe("projectUpdated", refreshOverviews);
+projectsManager.events.subscribe("projectDeleted", refreshOverviews);
+projectsManager.events.subscribe("todoChanged", refreshOverviews);
+projectsManager.events.subscribe("imported", refreshOverviews);
+
+undoBtn?.addEventListener("click", () => projectsManager.undo());
+redoBtn?.addEventListener("click", () => projectsManager.redo());
+
+document.addEventListener("keydown", (e) => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+  // Text fields keep their native undo
+  const target = e.target as HTMLElement | null;
+  if (target?.closest("input, textarea, select, [contenteditable]")) return;
+  if (document.querySelector("dialog[open]")) return;
+
+  const key = e.key.toLowerCase();
+  if (key === "z" && !e.shiftKey) {
+    e.preventDefault();
+    projectsManager.undo();
+  } else if ((key === "z" && e.shiftKey) || key === "y") {
+    e.preventDefault();
+    projectsManager.redo();
+  }
+});
+
 // ---------------- New Project modal ----------------
 
 const newProjectBtn = document.getElementById("new-project-btn");
@@ -111,22 +281,30 @@ if (projectForm && projectForm instanceof HTMLFormElement) {
       return;
     }
 
-    const status = normalizeStatus(formData.get("status"));
-    const userRole = normalizeRole(formData.get("userRole"));
-    const finishDate = normalizeFinishDate(formData.get("finishDate"));
+    const status = Project.normalizeStatus(formData.get("status"));
+    const userRole = Project.normalizeRole(formData.get("userRole"));
+    const finishDate = Project.normalizeFinishDate(formData.get("finishDate"));
+    const startDateRaw = String(formData.get("startDate") ?? "").trim();
+
+    const budget = Number(String(formData.get("budget") ?? "").trim() || 0);
+    if (!Number.isFinite(budget) || budget < 0) {
+      alert("Budget must be a positive amount.");
+      return;
+    }
 
     const projectData: IProject = {
       name,
       description,
       status,
       userRole,
+      startDate: startDateRaw ? new Date(startDateRaw) : undefined,
       finishDate,
+      budget,
+      currency: Budget.normalizeCurrency(formData.get("currency")),
     };
 
     try {
-      const project = projectsManager.newProject(projectData);
-      console.log("Created project:", project);
-
+      projectsManager.newProject(projectData);
       projectForm.reset();
       closeModal("new-project-modal");
     } catch (err) {
@@ -141,14 +319,33 @@ if (projectForm && projectForm instanceof HTMLFormElement) {
 
 const exportProjectsBtn = document.getElementById("export-projects-btn");
 if (exportProjectsBtn) {
-  exportProjectsBtn.addEventListener("click", () => {
-    projectsManager.exportToJSON();
+  exportProjectsBtn.addEventListener("click", () => showModal("export-projects-modal"));
+}
+
+const exportForm = document.getElementById("export-projects-form");
+if (exportForm && exportForm instanceof HTMLFormElement) {
+  exportForm.addEventListener("submit", (e) => {
+    e.preventDefault();
+
+    const formData = new FormData(exportForm);
+    const format = String(formData.get("format") ?? "json");
+    const includeTodos = formData.get("includeTodos") === "on";
+
+    if (format === "csv") {
+      projectsManager.exportToCSV("projects", includeTodos);
+    } else if (format === "xlsx") {
+      projectsManager.exportToXLSX("projects", includeTodos).catch((err) => alert(String(err)));
+    } else {
+      projectsManager.exportToJSON();
+    }
+    closeModal("export-projects-modal");
   });
 }
 
 const importProjectsBtn = document.getElementById("import-projects-btn");
 if (importProjectsBtn) {
   importProjectsBtn.addEventListener("click", () => {
-    projectsManager.importFromJSON();
+    // JSON, CSV or XLSX
+    projectsManager.importFromFile();
   });
 }
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { Command, CommandHistory } from "../src/classes/CommandHistory";
+
+/** Command that adds / removes `value` from a list */
+function pushCommand(list: number[], value: number): Command {
+  list.push(value);
+  return {
+    description: `Add ${value}`,
+    undo: () => void list.splice(list.lastIndexOf(value), 1),
+    redo: () => void list.push(value),
+  };
+}
+
+describe("CommandHistory", () => {
+  it("undoes and redoes in order", () => {
+    const list: number[] = [];
+    const history = new CommandHistory();
+    history.push(pushCommand(list, 1));
+    history.push(pushCommand(list, 2));
+
+    expect(history.nextUndo).toBe("Add 2");
+    expect(history.undo()?.description).toBe("Add 2");
+    expect(list).toEqual([1]);
+    expect(history.nextRedo).toBe("Add 2");
+    expect(history.redo()?.description).toBe("Add 2");
+    expect(list).toEqual([1, 2]);
+  });
+
+  it("returns null when there is nothing to undo or redo", () => {
+    const history = new CommandHistory();
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(false);
+    expect(history.undo()).toBeNull();
+    expect(history.redo()).toBeNull();
+  });
+
+  it("drops the redo stack when a new command is pushed", () => {
+    const list: number[] = [];
+    const history = new CommandHistory();
+    history.push(pushCommand(list, 1));
+    history.undo();
+    history.push(pushCommand(list, 3));
+
+    expect(history.canRedo).toBe(false);
+    expect(list).toEqual([3]);
+  });
+
+  it("forgets the oldest commands past the limit", () => {
+    const list: number[] = [];
+    const history = new CommandHistory(2);
+    [1, 2, 3].forEach((n) => history.push(pushCommand(list, n)));
+
+    history.undo();
+    history.undo();
+    expect(history.undo()).toBeNull();
+    expect(list).toEqual([1]);
+  });
+
+  it("notifies onChange after push, undo, redo and clear", () => {
+    const history = new CommandHistory();
+    const onChange = vi.fn();
+    history.onChange = onChange;
+
+    history.push(pushCommand([], 1));
+    history.undo();
+    history.redo();
+    history.clear();
+    expect(onChange).toHaveBeenCalledTimes(4);
+    expect(history.canUndo).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { PermissionError, Permissions } from "../src/classes/Permissions";
+
+describe("Permissions", () => {
+  it("lets architects do everything", () => {
+    for (const permission of Object.keys(Permissions.DESCRIPTIONS)) {
+      expect(Permissions.can("architect", permission as keyof typeof Permissions.DESCRIPTIONS)).toBe(true);
+    }
+  });
+
+  it("keeps engineers away from schedule, role, lifecycle and team changes", () => {
+    expect(Permissions.can("engineer", "project:edit")).toBe(true);
+    expect(Permissions.can("engineer", "todo:delete")).toBe(true);
+    expect(Permissions.can("engineer", "project:editSchedule")).toBe(false);
+    expect(Permissions.can("engineer", "project:delete")).toBe(false);
+    expect(Permissions.can("engineer", "project:members")).toBe(false);
+  });
+
+  it("only lets developers change ToDo status", () => {
+    expect(Permissions.MATRIX.developer).toEqual(["todo:status"]);
+    expect(Permissions.can("developer", "todo:edit")).toBe(false);
+  });
+
+  it("throws a PermissionError describing the refused action", () => {
+    expect(() => Permissions.assert("architect", "project:delete")).not.toThrow();
+    try {
+      Permissions.assert("developer", "project:archive");
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(PermissionError);
+      expect((err as PermissionError).role).toBe("developer");
+      expect((err as PermissionError).permission).toBe("project:archive");
+      expect(String(err)).toContain("A developer is not allowed to archive the project.");
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { ITodo, Project } from "../src/classes/Project";
+import { projectData } from "./fixtures";
+
+describe("Project", () => {
+  it("puts ToDos with an unknown status back in the pending column", () => {
+    const stored = { id: "t1", title: "Check slabs", status: "waiting" } as unknown as ITodo;
+    const project = new Project(projectData({ todos: [stored] }));
+
+    expect(project.todos[0].status).toBe("pending");
+    expect(Project.normalizeTodo({ title: "Pour", status: "done" }).status).toBe("done");
+  });
+
+  it("leaves a ToDo untouched when an update changes nothing", () => {
+    const project = new Project(projectData());
+    const todo = project.addTodo("Check slabs", "pending", { tags: ["site"], weight: 2 });
+    todo.updatedAt = "2024-01-01T00:00:00.000Z";
+    const activity = project.activity.length;
+
+    // What the ToDo form sends when saved without edits
+    project.updateTodo(todo.id, {
+      title: " Check slabs ",
+      status: "pending",
+      priority: todo.priority,
+      assigneeId: undefined,
+      description: undefined,
+      tags: ["site"],
+      weight: 2,
+      milestone: undefined,
+    });
+    expect(todo.updatedAt).toBe("2024-01-01T00:00:00.000Z");
+    expect(project.activity).toHaveLength(activity);
+
+    project.updateTodo(todo.id, { title: "Check slabs and beams" });
+    expect(todo.updatedAt).not.toBe("2024-01-01T00:00:00.000Z");
+    expect(project.activity).toHaveLength(activity + 1);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, it, vi } from "vitest";
+import { ICostItem, IProject } from "../src/classes/Project";
+import { PermissionError } from "../src/classes/Permissions";
+import { ProjectsImport } from "../src/classes/ProjectsImport";
+import { ProjectService } from "../src/classes/ProjectService";
+import { projectData, usersOf } from "./fixtures";
+
+describe("ProjectService", () => {
+  describe("permissions", () => {
+    it("only asks for the permissions of fields that change", () => {
+      const service = new ProjectService();
+      const project = service.newProject(projectData({ budget: 100 }));
+
+      expect(ProjectService.updatePermissions(project, { name: "Tower block", budget: 100 })).toEqual([]);
+      expect(
+        ProjectService.updatePermissions(project, { status: "finished", budget: 200, userRole: "engineer" })
+      ).toEqual(["project:edit", "project:editSchedule", "project:editRole"]);
+    });
+
+    it("refuses what the project role may not do, without changing anything", () => {
+      const service = new ProjectService();
+      const project = service.newProject(projectData({ userRole: "developer" }));
+      const todo = project.addTodo("Check slabs");
+      service.history.clear();
+
+      expect(() => service.deleteProject(project.id)).toThrow(PermissionError);
+      expect(() => service.updateProject(project.id, { status: "finished" })).toThrow(PermissionError);
+      expect(() => service.updateTodo(project.id, todo.id, { title: "Renamed" })).toThrow(PermissionError);
+      expect(project.isTrashed).toBe(false);
+      expect(project.status).toBe("active");
+      expect(service.history.canUndo).toBe(false);
+
+      service.updateTodo(project.id, todo.id, { status: "done" });
+      expect(project.todos[0].status).toBe("done");
+    });
+
+    it("skips import updates the role may not apply", () => {
+      const service = new ProjectService();
+      const project = service.newProject(projectData({ userRole: "developer" }));
+      const plan = service.planImport(ProjectsImport.createExport([projectData({ id: project.id })]), 3);
+
+      expect(plan.entries[0].action).toBe("skip");
+      expect(plan.entries[0].reasons[0]).toContain("not allowed to import");
+    });
+
+    it("holds import updates to the same rules as edits", () => {
+      const service = new ProjectService();
+      const project = service.newProject(projectData({ userRole: "engineer", budget: 100 }));
+      const file = (data: Partial<IProject>) =>
+        ProjectsImport.createExport([
+          projectData({ id: project.id, userRole: "engineer", budget: 100, ...data }),
+        ]);
+
+      const promoted = service.planImport(file({ userRole: "architect" }), 3);
+      expect(promoted.entries[0].action).toBe("skip");
+      expect(promoted.entries[0].reasons).toEqual([
+        "your role (engineer) is not allowed to change the project role",
+      ]);
+      // Applying an unchecked plan is refused as well
+      const unchecked = ProjectsImport.plan(file({ userRole: "architect" }), 3, service.list);
+      expect(() => service.applyImport(unchecked)).toThrow(PermissionError);
+      expect(project.userRole).toBe("engineer");
+
+      const costItems: ICostItem[] = [
+        { id: "c1", description: "Steel", category: "materials", date: "2030-01-01", amount: 50 },
+      ];
+      expect(service.planImport(file({ costItems }), 3).entries[0].action).toBe("skip");
+      expect(service.planImport(file({ memberIds: ["someone"] }), 3).entries[0].action).toBe("skip");
+
+      // What the role may edit still goes through
+      const renamed = service.planImport(file({ description: "Updated from site" }), 3);
+      expect(renamed.entries[0].action).toBe("update");
+      service.applyImport(renamed);
+      expect(project.description).toBe("Updated from site");
+    });
+  });
+
+  describe("team", () => {
+    it("only accepts members from the team directory", () => {
+      const users = usersOf([{ id: "u1", name: "Ada", email: "ada@example.com", role: "engineer" }]);
+      const service = new ProjectService(users);
+      const project = service.newProject(projectData());
+
+      expect(() => service.setMembers(project.id, ["u1", "u2"])).toThrow("User u2 does not exist.");
+      service.setMembers(project.id, ["u1"]);
+      expect(project.memberIds).toEqual(["u1"]);
+    });
+  });
+
+  describe("undo / redo", () => {
+    it("reverts and re-applies project edits", () => {
+      const service = new ProjectService();
+      const project = service.newProject(projectData());
+      service.updateProject(project.id, { status: "finished" });
+
+      expect(service.undo()).toBe('Edit project "Tower block"');
+      expect(project.status).toBe("active");
+      expect(service.redo()).toBe('Edit project "Tower block"');
+      expect(project.status).toBe("finished");
+      // The revert is logged, not rewound
+      expect(project.activity.some((a) => a.action === "project.reverted")).toBe(true);
+    });
+
+    it("removes a created project on undo and brings it back on redo", () => {
+      const service = new ProjectService();
+      const deleted = vi.fn();
+      service.events.subscribe("projectDeleted", deleted);
+      const project = service.newProject(projectData());
+
+      service.undo();
+      expect(service.list).toHaveLength(0);
+      expect(deleted).toHaveBeenCalledWith({ project, permanent: true });
+
+      service.redo();
+      expect(service.list.map((p) => p.id)).toEqual([project.id]);
+    });
+
+    it("records no step when nothing changes", () => {
+      const service = new ProjectService();
+      const project = service.newProject(projectData());
+      service.history.clear();
+
+      service.updateProject(project.id, { status: "active" });
+      service.archiveProject(project.id, false);
+      expect(service.history.canUndo).toBe(false);
+
+      const todo = service.addTodo(project.id, "Check slabs", "pending");
+      todo.updatedAt = "2024-01-01T00:00:00.000Z";
+      service.history.clear();
+      service.updateTodo(project.id, todo.id, {
+        title: todo.title,
+        status: todo.status,
+        priority: todo.priority,
+      });
+      expect(service.history.canUndo).toBe(false);
+    });
+
+    it("undoes ToDo transfers in both projects at once", () => {
+      const service = new ProjectService();
+      const source = service.newProject(projectData({ name: "Source project" }));
+      const target = service.newProject(projectData({ name: "Target project" }));
+      const todo = service.addTodo(source.id, "Check slabs", "pending");
+
+      service.transferTodos(source.id, [todo.id], target.id, "move");
+      expect(target.todos.map((t) => t.id)).toEqual([todo.id]);
+
+      service.undo();
+      expect(source.todos.map((t) => t.id)).toEqual([todo.id]);
+      expect(target.todos).toHaveLength(0);
+    });
+
+    it("clears the history when a project is purged", () => {
+      const service = new ProjectService();
+      const project = service.newProject(projectData());
+      service.deleteProject(project.id);
+
+      expect(service.purgeProject(project.id)).toBe(project);
+      expect(service.list).toHaveLength(0);
+      expect(service.history.canUndo).toBe(false);
+    });
+  });
+
+  describe("imports", () => {
+    it("applies a plan as one undoable step and publishes it", () => {
+      const service = new ProjectService();
+      const existing = service.newProject(projectData());
+      const imported = vi.fn();
+      service.events.subscribe("imported", imported);
+
+      const plan = service.planImport(
+        ProjectsImport.createExport([
+          projectData({ id: existing.id, status: "finished" }),
+          projectData({ name: "New school" }),
+        ]),
+        3
+      );
+      service.applyImport(plan);
+
+      expect(existing.status).toBe("finished");
+      expect(service.list.map((p) => p.name)).toEqual(["Tower block", "New school"]);
+      expect(imported).toHaveBeenCalledTimes(1);
+      expect(imported.mock.calls[0][0].updated).toEqual([existing]);
+
+      expect(service.undo()).toBe("Import 2 project(s)");
+      expect(existing.status).toBe("active");
+      expect(service.list.map((p) => p.name)).toEqual(["Tower block"]);
+    });
+
+    it("upserts BCF topics by id", () => {
+      const service = new ProjectService();
+      const project = service.newProject(projectData());
+      const now = new Date().toISOString();
+      const topic = { id: "t1", title: "Clash", status: "pending" as const, createdAt: now, updatedAt: now };
+
+      expect(service.importBcfTopics(project.id, [topic], "a.bcf")).toEqual({ created: 1, updated: 0 });
+      expect(service.importBcfTopics(project.id, [{ ...topic, title: "Clash fixed" }], "a.bcf")).toEqual({
+        created: 0,
+        updated: 1,
+      });
+      expect(project.todos.map((t) => t.title)).toEqual(["Clash fixed"]);
+    });
+  });
+
+  it("publishes ToDo changes with the touched ids", () => {
+    const service = new ProjectService();
+    const project = service.newProject(projectData());
+    const changed = vi.fn();
+    service.events.subscribe("todoChanged", changed);
+
+    const todo = service.addTodo(project.id, "Check slabs", "pending");
+    service.deleteTodo(project.id, todo.id);
+    expect(changed.mock.calls.map(([e]) => e.todoIds)).toEqual([[todo.id], [todo.id]]);
+  });
+});
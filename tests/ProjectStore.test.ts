@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import { Project } from "../src/classes/Project";
+import { ProjectStore } from "../src/classes/ProjectStore";
+import { projectData } from "./fixtures";
+
+describe("ProjectStore", () => {
+  it("creates projects with a unique, trimmed name", () => {
+    const store = new ProjectStore();
+    const project = store.create(projectData({ name: "  Tower block  " }));
+
+    expect(project.name).toBe("Tower block");
+    expect(store.get(project.id)).toBe(project);
+    expect(store.getByName("TOWER BLOCK")).toBe(project);
+    expect(() => store.create(projectData({ name: "tower block" }))).toThrow("already exists");
+    expect(() => store.create(projectData({ name: "Shed" }))).toThrow("at least 5 characters");
+  });
+
+  it("rejects a start date after the finish date", () => {
+    const store = new ProjectStore();
+    expect(() =>
+      store.create(projectData({ startDate: "2031-01-01", finishDate: "2030-01-01" }))
+    ).toThrow("start date");
+
+    const project = store.create(projectData());
+    expect(() => store.validateUpdate(project, { startDate: "2031-01-01" })).toThrow("start date");
+    expect(() => store.validateUpdate(project, { name: "Renamed tower" })).not.toThrow();
+  });
+
+  it("notifies listeners when projects are added or removed", () => {
+    const store = new ProjectStore();
+    const listener = vi.fn();
+    const unsubscribe = store.onChange(listener);
+
+    const project = store.create(projectData());
+    store.remove(project.id);
+    unsubscribe();
+    store.create(projectData({ name: "Another project" }));
+
+    expect(listener.mock.calls.map(([change]) => change.type)).toEqual(["added", "removed"]);
+  });
+
+  it("validates cost items (credits allowed, zero is not)", () => {
+    const item = { description: "Refund", category: "other" as const, date: "2024-01-01", amount: -50 };
+    expect(() => ProjectStore.validateCostItem(item)).not.toThrow();
+    expect(() => ProjectStore.validateCostItem({ ...item, amount: 0 })).toThrow("non-zero");
+    expect(() => ProjectStore.validateCostItem({ ...item, description: " " })).toThrow("description");
+    expect(() => ProjectStore.validateCostItem({ ...item, date: "2024-02-30" })).toThrow("valid date");
+  });
+
+  it("refuses dependencies that would close a loop", () => {
+    const project = new Project(projectData());
+    const a = project.addTodo("Design");
+    const b = project.addTodo("Build", "pending", { dependsOn: [a.id] });
+
+    expect(() => ProjectStore.validateDependencies(project, a, [b.id])).toThrow("cannot depend");
+    expect(() => ProjectStore.validateDependencies(project, b, [a.id])).not.toThrow();
+  });
+
+  describe("transferTodos", () => {
+    function setup() {
+      const source = new Project(projectData({ name: "Source project", memberIds: ["u1"] }));
+      const target = new Project(projectData({ name: "Target project" }));
+      const design = source.addTodo("Design", "pending", { assigneeId: "u1" });
+      const build = source.addTodo("Build", "pending", { dependsOn: [design.id] });
+      const paint = source.addTodo("Paint", "pending", { dependsOn: [build.id] });
+      return { source, target, design, build, paint };
+    }
+
+    it("moves ToDos, keeps dependencies between them and drops the rest", () => {
+      const { source, target, design, build, paint } = setup();
+      ProjectStore.transferTodos(source, target, [build, paint], "move");
+
+      expect(source.todos.map((t) => t.id)).toEqual([design.id]);
+      const moved = new Map(target.todos.map((t) => [t.title, t]));
+      expect(moved.get("Build")?.id).toBe(build.id);
+      expect(moved.get("Build")?.dependsOn).toBeUndefined();
+      expect(moved.get("Paint")?.dependsOn).toEqual([build.id]);
+    });
+
+    it("copies ToDos with new ids and points copied dependencies at the copies", () => {
+      const { source, target, design, build } = setup();
+      ProjectStore.transferTodos(source, target, [design, build], "copy");
+
+      expect(source.todos).toHaveLength(3);
+      const copies = new Map(target.todos.map((t) => [t.title, t]));
+      const designCopy = copies.get("Design")!;
+      expect(designCopy.id).not.toBe(design.id);
+      expect(copies.get("Build")?.dependsOn).toEqual([designCopy.id]);
+      // u1 is not a member of the target project
+      expect(designCopy.assigneeId).toBeUndefined();
+    });
+
+    it("refuses the same project or a trashed target", () => {
+      const { source, target, design } = setup();
+      expect(() => ProjectStore.transferTodos(source, source, [design], "copy")).toThrow("already");
+      target.trash();
+      expect(() => ProjectStore.transferTodos(source, target, [design], "copy")).toThrow("does not exist");
+    });
+  });
+
+  it("merges an import entry into an existing project", () => {
+    const project = new Project(projectData({ budget: 100 }));
+    ProjectStore.mergeImported(
+      project,
+      projectData({
+        name: "Tower block",
+        status: "finished",
+        costItems: [{ id: "c1", description: "Steel", category: "materials", date: "2024-01-01", amount: 80 }],
+        memberIds: ["u1"],
+        archived: true,
+      }),
+      null,
+      "newest-wins"
+    );
+
+    expect(project.status).toBe("finished");
+    expect(project.budget).toBe(100);
+    expect(project.cost).toBe(80);
+    expect(project.memberIds).toEqual(["u1"]);
+    expect(project.archived).toBe(true);
+  });
+
+  it("keeps local models on import and ignores the file's references", () => {
+    const store = new ProjectStore();
+    const project = store.create(projectData());
+    const local = project.addModel("local.ifc", 10);
+    const remote = { id: "m-remote", name: "remote.ifc", size: 20, addedAt: "2024-01-01T00:00:00.000Z" };
+
+    ProjectStore.mergeImported(project, projectData({ models: [remote] }), null, "newest-wins");
+    expect(project.models).toEqual([local]);
+
+    const created = store.addImported(projectData({ name: "New school", models: [remote] }));
+    expect(created.models).toEqual([]);
+  });
+});
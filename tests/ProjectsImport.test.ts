@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { ITodo, Project } from "../src/classes/Project";
+import { IProjectsExport, ProjectsImport } from "../src/classes/ProjectsImport";
+import { projectData } from "./fixtures";
+
+function todo(id: string, title: string, updatedAt: string): ITodo {
+  return { ...Project.normalizeTodo({ id, title }), updatedAt };
+}
+
+function exportOf(projects: unknown[]): IProjectsExport {
+  return { schemaVersion: ProjectsImport.SCHEMA_VERSION, exportedAt: "", projects, users: [] };
+}
+
+describe("ProjectsImport.parse", () => {
+  it("upgrades a bare v1 array to the current schema", () => {
+    const { data, sourceVersion } = ProjectsImport.parse(JSON.stringify([projectData()]));
+    expect(sourceVersion).toBe(1);
+    expect(data.schemaVersion).toBe(ProjectsImport.SCHEMA_VERSION);
+    expect(data.projects).toHaveLength(1);
+    expect(data.users).toEqual([]);
+  });
+
+  it("rejects invalid JSON, unknown shapes and newer schemas", () => {
+    expect(() => ProjectsImport.parse("{")).toThrow("Invalid JSON");
+    expect(() => ProjectsImport.parse('{"projects": []}')).toThrow("Unrecognized file");
+    expect(() => ProjectsImport.parse('{"schemaVersion": 99, "projects": []}')).toThrow("newer version");
+    expect(() => ProjectsImport.parse('{"schemaVersion": 3, "projects": {}, "users": []}')).toThrow(
+      '"projects" must be an array'
+    );
+  });
+});
+
+describe("ProjectsImport.validate", () => {
+  it("lists every problem of an entry", () => {
+    const { project, errors } = ProjectsImport.validate({
+      name: "Tiny",
+      status: "paused",
+      userRole: "architect",
+      todos: [{ title: "", dependsOn: [1] }],
+    });
+    expect(project).toBeNull();
+    expect(errors).toEqual([
+      "name must be at least 5 characters long",
+      'invalid status "paused" (expected pending, active, finished)',
+      "todo #1 has no title",
+      "todo #1 dependsOn must be an array of ToDo ids",
+    ]);
+  });
+
+  it("accepts a negative net cost exported with credit lines", () => {
+    const { errors } = ProjectsImport.validate(
+      projectData({
+        cost: -50,
+        costItems: [{ id: "c1", description: "Refund", category: "other", date: "2024-01-01", amount: -50 }],
+      })
+    );
+    expect(errors).toEqual([]);
+  });
+
+  it("checks model references like ToDos and cost items", () => {
+    expect(ProjectsImport.validate({ ...projectData(), models: "x" }).errors).toEqual([
+      "models must be an array",
+    ]);
+    expect(ProjectsImport.validate({ ...projectData(), models: [null, { id: "m2" }] }).errors).toEqual([
+      "model #1 is not an object",
+      "model #2 has no file name",
+    ]);
+    const models = [{ id: "m1", name: "tower.ifc", size: 10, addedAt: "2024-01-01T00:00:00.000Z" }];
+    expect(ProjectsImport.validate(projectData({ models })).errors).toEqual([]);
+  });
+
+  it("never imports a project into the trash", () => {
+    const { project } = ProjectsImport.validate({ ...projectData(), deletedAt: "2024-01-01" });
+    expect(project?.deletedAt).toBeNull();
+  });
+});
+
+describe("ProjectsImport.plan", () => {
+  it("updates by id, then by name, and creates the rest", () => {
+    const byId = new Project(projectData({ name: "Tower block" }));
+    const byName = new Project(projectData({ name: "Bridge works" }));
+    const plan = ProjectsImport.plan(
+      exportOf([
+        projectData({ id: byId.id, name: "Tower block", status: "finished" }),
+        projectData({ name: "BRIDGE WORKS" }),
+        projectData({ name: "New school" }),
+        projectData({ name: "Bad" }),
+      ]),
+      3,
+      [byId, byName]
+    );
+
+    expect(plan.entries.map((e) => [e.action, e.name])).toEqual([
+      ["update", "Tower block"],
+      ["update", "BRIDGE WORKS"],
+      ["create", "New school"],
+      ["skip", "Bad"],
+    ]);
+    expect(plan.entries[0].existing).toBe(byId);
+    expect(plan.entries[0].overwrites).toContain("status: active → finished");
+    expect(plan.entries[1].existing).toBe(byName);
+  });
+
+  it("skips entries duplicated in the file", () => {
+    const plan = ProjectsImport.plan(
+      exportOf([projectData({ name: "New school" }), projectData({ name: "new school" })]),
+      3,
+      []
+    );
+    expect(plan.entries.map((e) => e.action)).toEqual(["create", "skip"]);
+    expect(plan.entries[1].reasons).toEqual(["duplicated in the file"]);
+  });
+
+  it("merges the ToDos of updated projects with the chosen mode", () => {
+    const existing = new Project(projectData());
+    existing.todos = [todo("t1", "Local title", "2024-01-02T00:00:00.000Z")];
+    const plan = ProjectsImport.plan(
+      exportOf([projectData({ id: existing.id, todos: [todo("t1", "File title", "2024-01-01T00:00:00.000Z")] })]),
+      3,
+      [existing],
+      "replace"
+    );
+    expect(plan.mergeMode).toBe("replace");
+    expect(plan.entries[0].todoMerge?.todos.map((t) => t.title)).toEqual(["File title"]);
+  });
+});
+
+describe("ProjectsImport.mergeTodos", () => {
+  const older = "2024-01-01T00:00:00.000Z";
+  const newer = "2024-02-01T00:00:00.000Z";
+  const local = [todo("a", "Local A", older), todo("b", "Local B", newer), todo("c", "Only local", older)];
+  const incoming = [todo("a", "File A", newer), todo("b", "File B", older), todo("d", "Only in file", older)];
+
+  it("replace: the incoming list wins as a whole", () => {
+    const result = ProjectsImport.mergeTodos(local, incoming, "replace");
+    expect(result.todos.map((t) => t.title)).toEqual(["File A", "File B", "Only in file"]);
+    expect([result.added, result.updated, result.removed]).toEqual([1, 2, 1]);
+  });
+
+  it("keep-local: union by id, local version wins", () => {
+    const result = ProjectsImport.mergeTodos(local, incoming, "keep-local");
+    expect(result.todos.map((t) => t.title)).toEqual(["Local A", "Local B", "Only local", "Only in file"]);
+    expect(result.conflicts.map((c) => c.resolution)).toEqual(["local", "local"]);
+  });
+
+  it("newest-wins: union by id, latest updatedAt wins", () => {
+    const result = ProjectsImport.mergeTodos(local, incoming, "newest-wins");
+    expect(result.todos.map((t) => t.title)).toEqual(["File A", "Local B", "Only local", "Only in file"]);
+    expect(result.conflicts).toEqual([
+      { id: "a", title: "Local A", resolution: "incoming" },
+      { id: "b", title: "Local B", resolution: "local" },
+    ]);
+    expect([result.added, result.updated, result.removed]).toEqual([1, 1, 0]);
+  });
+
+  it("ignores timestamps when content is the same", () => {
+    const result = ProjectsImport.mergeTodos(
+      [todo("a", "Same", older)],
+      [todo("a", "Same", newer)],
+      "newest-wins"
+    );
+    expect(result.conflicts).toEqual([]);
+    expect(result.updated).toBe(0);
+  });
+});
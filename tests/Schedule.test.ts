@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { ITodo, Project } from "../src/classes/Project";
+import { Schedule } from "../src/classes/Schedule";
+
+function todo(id: string, data: Partial<ITodo> = {}): ITodo {
+  return Project.normalizeTodo({ id, title: id, ...data });
+}
+
+describe("Schedule", () => {
+  it("adds and counts days across months without DST shifts", () => {
+    expect(Schedule.addDays("2024-03-30", 2)).toBe("2024-04-01");
+    expect(Schedule.addDays("2024-03-01", -1)).toBe("2024-02-29");
+    expect(Schedule.daysBetween("2024-03-30", "2024-04-01")).toBe(2);
+    expect(Schedule.daysBetween("2024-04-01", "2024-03-30")).toBe(-2);
+  });
+
+  it("falls back to the other side or the due date for ToDo bars", () => {
+    expect(Schedule.todoSpan(todo("a", { startDate: "2024-01-05" }))).toEqual({
+      start: "2024-01-05",
+      end: "2024-01-05",
+    });
+    expect(Schedule.todoSpan(todo("b", { dueDate: "2024-01-09" }))).toEqual({
+      start: "2024-01-09",
+      end: "2024-01-09",
+    });
+    expect(Schedule.todoSpan(todo("c"))).toBeNull();
+  });
+
+  it("finds the range holding every span", () => {
+    expect(Schedule.range([])).toBeNull();
+    expect(
+      Schedule.range([
+        { start: "2024-02-01", end: "2024-02-10" },
+        { start: "2024-01-20", end: "2024-02-05" },
+      ])
+    ).toEqual({ start: "2024-01-20", end: "2024-02-10" });
+  });
+
+  it("detects dependency cycles", () => {
+    const todos = [todo("a"), todo("b", { dependsOn: ["a"] }), todo("c", { dependsOn: ["b"] })];
+    expect(Schedule.wouldCycle(todos, "a", ["c"])).toBe(true);
+    expect(Schedule.wouldCycle(todos, "a", ["a"])).toBe(true);
+    expect(Schedule.wouldCycle(todos, "c", ["a"])).toBe(false);
+  });
+
+  it("flags a dependent ToDo that starts before its predecessor ends", () => {
+    const predecessor = { start: "2024-01-01", end: "2024-01-05" };
+    expect(Schedule.isLate(predecessor, { start: "2024-01-05", end: "2024-01-06" })).toBe(true);
+    expect(Schedule.isLate(predecessor, { start: "2024-01-06", end: "2024-01-07" })).toBe(false);
+  });
+
+  it("returns the chain without slack as the critical path", () => {
+    const todos = [
+      todo("design", { startDate: "2024-01-01", endDate: "2024-01-10" }),
+      todo("build", { startDate: "2024-01-11", endDate: "2024-01-20", dependsOn: ["design"] }),
+      todo("paint", { startDate: "2024-01-11", endDate: "2024-01-12", dependsOn: ["design"] }),
+      todo("unscheduled"),
+    ];
+    expect([...Schedule.criticalPath(todos)].sort()).toEqual(["build", "design"]);
+  });
+
+  it("has no critical path when dependencies loop", () => {
+    const todos = [
+      todo("a", { startDate: "2024-01-01", dependsOn: ["b"] }),
+      todo("b", { startDate: "2024-01-02", dependsOn: ["a"] }),
+    ];
+    expect(Schedule.criticalPath(todos).size).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { IProject } from "../src/classes/Project";
+import { ProjectUsers } from "../src/classes/ProjectService";
+import { IUser, User } from "../src/classes/User";
+
+/** Valid project data; `data` overrides single fields */
+export function projectData(data: Partial<IProject> = {}): IProject {
+  return {
+    name: "Tower block",
+    description: "",
+    status: "active",
+    userRole: "architect",
+    finishDate: "2030-06-30",
+    ...data,
+  };
+}
+
+/** In-memory team directory with real (DOM-free) users */
+export function usersOf(data: IUser[]): ProjectUsers {
+  const users: ProjectUsers = {
+    list: data.map((u) => new User(u)),
+    getUser: (id) => users.list.find((u) => u.id === id),
+    upsertUser(entry) {
+      const user = new User(entry);
+      users.list = [...users.list.filter((u) => u.id !== user.id), user];
+      return user;
+    },
+    snapshot: () => users.list.map((u) => u.toJSON()),
+    restoreSnapshot(snapshot) {
+      users.list = snapshot.map((u) => new User(u));
+    },
+  };
+  return users;
+}